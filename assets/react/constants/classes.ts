@@ -103,3 +103,25 @@ export enum SOLAR_SYSTEM_CLASS_IDS {
   pochven = 25,
   zarzakh = 10100,
 }
+
+// Short labels used to search and filter systems by class
+export const SYSTEM_CLASS_LABELS: Record<string, string> = {
+  '1': 'C1',
+  '2': 'C2',
+  '3': 'C3',
+  '4': 'C4',
+  '5': 'C5',
+  '6': 'C6',
+  '7': 'HS',
+  '8': 'LS',
+  '9': 'NS',
+  '12': 'Thera',
+  '13': 'C13',
+  '14': 'Sentinel',
+  '15': 'Barbican',
+  '16': 'Vidette',
+  '17': 'Conflux',
+  '18': 'Redoubt',
+  '25': 'Pochven',
+  '10100': 'Zarzakh',
+};
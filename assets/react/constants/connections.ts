@@ -0,0 +1,56 @@
+// Connection status values as sent by the Wanderer map API
+
+export enum MASS_STATUS {
+  normal = 0,
+  reduced = 1,
+  critical = 2,
+}
+
+export enum TIME_STATUS {
+  normal = 0,
+  eol = 1,
+}
+
+export enum SHIP_SIZE_STATUS {
+  small = 0,
+  medium = 1,
+  large = 2,
+  freight = 3,
+  capital = 4,
+}
+
+export const MASS_STATUS_COLORS: Record<string, string> = {
+  '0': 'rgba(100, 150, 200, 0.6)',
+  '1': '#f5a623',
+  '2': '#ff3366',
+};
+
+export const MASS_STATUS_TITLES: Record<string, string> = {
+  '0': 'Stable',
+  '1': 'Destabilized',
+  '2': 'Critical',
+};
+
+export const TIME_STATUS_TITLES: Record<string, string> = {
+  '0': 'Normal',
+  '1': 'End of life',
+};
+
+export const SHIP_SIZE_TITLES: Record<string, string> = {
+  '0': 'Frigate',
+  '1': 'Medium',
+  '2': 'Large',
+  '3': 'Freight',
+  '4': 'Capital',
+};
+
+// Multipliers applied to the base edge width of each view
+export const SHIP_SIZE_LINE_WIDTH_FACTORS: Record<string, number> = {
+  '0': 0.4,
+  '1': 0.7,
+  '2': 1,
+  '3': 1.3,
+  '4': 1.6,
+};
+
+export const EOL_LINE_DASH = [2, 4];
@@ -0,0 +1,19 @@
+// Depth ring tints, from the home system outwards; deeper systems use the last colour
+export const DEPTH_COLORS = ['#00ff88', '#7cfc00', '#d4e157', '#ffca28', '#ff9800', '#ff5722', '#f44336'];
+
+// Systems with no path to home
+export const UNREACHABLE_DEPTH_COLOR = '#4b5563';
+
+// Tints of the systems owned by each home, in home priority order; wraps around past the last colour
+export const HOME_COLORS = ['#00d9ff', '#ff00ff', '#ffd600', '#00ff88', '#ff6d00', '#7c4dff'];
+
+// Choices of the "within N jumps of home" filter; null shows everything
+export const MAX_DEPTH_OPTIONS: (number | null)[] = [null, 1, 2, 3, 5, 8];
+
+export const getDepthColor = (depth: number | undefined) =>
+  depth === undefined ? UNREACHABLE_DEPTH_COLOR : DEPTH_COLORS[Math.min(depth, DEPTH_COLORS.length - 1)];
+
+export const getHomeColor = (homeIds: string[], ownerId: string | undefined) => {
+  const rank = ownerId === undefined ? -1 : homeIds.indexOf(ownerId);
+  return rank === -1 ? UNREACHABLE_DEPTH_COLOR : HOME_COLORS[rank % HOME_COLORS.length];
+};
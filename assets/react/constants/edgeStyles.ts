@@ -0,0 +1,13 @@
+// How connections are drawn. The animated styles show the way home:
+// - 'line': plain line, straight or curved on the owner dashboard
+// - 'moving-dots': impulses travelling along each connection toward home
+// - 'ant-line': marching ants dashed line toward home
+export type EdgeStyle = 'line' | 'moving-dots' | 'ant-line';
+
+export const EDGE_STYLES: { style: EdgeStyle; label: string; icon: string }[] = [
+  { style: 'line', label: 'Plain connections', icon: 'hero-minus-solid' },
+  { style: 'moving-dots', label: 'Impulses toward home', icon: 'hero-ellipsis-horizontal-solid' },
+  { style: 'ant-line', label: 'Marching ants toward home', icon: 'hero-bars-2-solid' },
+];
+
+export const isEdgeStyle = (value: unknown): value is EdgeStyle => EDGE_STYLES.some(({ style }) => style === value);
@@ -0,0 +1,16 @@
+// 'auto' turns the looping map effects off on slow devices and when the OS asks for reduced motion
+export type EffectsMode = 'auto' | 'full' | 'reduced';
+
+export const EFFECTS_MODES: { mode: EffectsMode; label: string; icon: string }[] = [
+  { mode: 'auto', label: 'Effects: automatic', icon: 'hero-bolt-solid' },
+  { mode: 'full', label: 'Effects: always on', icon: 'hero-sparkles-solid' },
+  { mode: 'reduced', label: 'Effects: reduced', icon: 'hero-bolt-slash-solid' },
+];
+
+// Why 'auto' reduced the effects
+export type ReducedEffectsReason = 'reduced-motion' | 'low-performance';
+
+export const REDUCED_EFFECTS_REASONS: Record<ReducedEffectsReason, string> = {
+  'reduced-motion': 'system asks for reduced motion',
+  'low-performance': 'slow device',
+};
@@ -0,0 +1,47 @@
+// Space types the filter bar can toggle. Pochven, Zarzakh and unknown systems are always shown
+export type SpaceFilter =
+  | 'hs'
+  | 'ls'
+  | 'ns'
+  | 'c1'
+  | 'c2'
+  | 'c3'
+  | 'c4'
+  | 'c5'
+  | 'c6'
+  | 'c13'
+  | 'thera'
+  | 'shattered'
+  | 'drifter';
+
+export const SPACE_FILTERS: { key: SpaceFilter; label: string }[] = [
+  { key: 'hs', label: 'HS' },
+  { key: 'ls', label: 'LS' },
+  { key: 'ns', label: 'NS' },
+  { key: 'c1', label: 'C1' },
+  { key: 'c2', label: 'C2' },
+  { key: 'c3', label: 'C3' },
+  { key: 'c4', label: 'C4' },
+  { key: 'c5', label: 'C5' },
+  { key: 'c6', label: 'C6' },
+  { key: 'c13', label: 'C13' },
+  { key: 'thera', label: 'Thera' },
+  { key: 'shattered', label: 'Shattered' },
+  { key: 'drifter', label: 'Drifter' },
+];
+
+// Filtered-out systems are either greyed out in place or removed from the canvas
+export type FilterMode = 'dim' | 'hide';
+
+export type SystemFilter = {
+  // Stored as the excluded set so newly added options start out visible
+  hiddenSpaces: SpaceFilter[];
+  borderOnly: boolean;
+  mode: FilterMode;
+};
+
+export const DEFAULT_SYSTEM_FILTER: SystemFilter = {
+  hiddenSpaces: [],
+  borderOnly: false,
+  mode: 'dim',
+};
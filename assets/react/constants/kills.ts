@@ -0,0 +1,14 @@
+// Time windows of the kill heatmap
+
+export type KillWindow = '1h' | '6h' | '24h';
+
+export const KILL_WINDOWS: KillWindow[] = ['1h', '6h', '24h'];
+
+export const KILL_WINDOW_SECONDS: Record<KillWindow, number> = {
+  '1h': 60 * 60,
+  '6h': 6 * 60 * 60,
+  '24h': 24 * 60 * 60,
+};
+
+// Kill count at which a system is shown at full heat
+export const KILL_HEAT_MAX = 10;
@@ -0,0 +1,20 @@
+export type LayoutType = 'raw' | 'force' | 'radial' | 'tree';
+
+export const LAYOUTS: { type: LayoutType; label: string; icon: string }[] = [
+  { type: 'raw', label: 'Source map positions', icon: 'hero-map-solid' },
+  { type: 'force', label: 'Force-directed', icon: 'hero-sparkles-solid' },
+  { type: 'radial', label: 'Radial around home', icon: 'hero-sun-solid' },
+  { type: 'tree', label: 'Tree from home', icon: 'hero-bars-arrow-down-solid' },
+];
+
+// Distance between depth rings of the radial layout and between levels of the tree layout
+export const LAYOUT_LEVEL_SPACING = 140;
+// Horizontal room for each leaf of the tree layout
+export const LAYOUT_SIBLING_SPACING = 90;
+// Preferred connection length and number of steps of the force-directed layout
+export const FORCE_EDGE_LENGTH = 120;
+export const FORCE_ITERATIONS = 200;
+// Force layouts kept for recent topologies, so switching layouts or live updates don't re-run the simulation
+export const FORCE_CACHE_SIZE = 4;
+// Pull toward the centre that keeps unconnected chains from drifting away
+export const FORCE_GRAVITY = 0.5;
@@ -0,0 +1,6 @@
+// Timing of the added/removed element highlights
+
+// How long added systems and connections stay highlighted
+export const NEW_HIGHLIGHT_DURATION = 10 * 60 * 1000;
+// How long removed systems and connections keep fading out before they are dropped
+export const REMOVED_FADE_DURATION = 10 * 1000;
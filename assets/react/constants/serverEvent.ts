@@ -1,6 +1,7 @@
 export enum ServerEvent {
   MARK_AS_MAIN = 'ui:mark_as_main',
   MARK_MAP_AS_MAIN = 'ui:mark_map_as_main',
+  GET_SYSTEM_URL = 'ui:get_system_url',
   EDIT_MAP = 'ui:edit_map',
   START_MAP = 'ui:start_map',
   STOP_MAP = 'ui:stop_map',
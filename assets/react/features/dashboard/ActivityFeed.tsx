@@ -0,0 +1,85 @@
+import React, { useMemo, useState } from 'react';
+
+import { useActivityFeed, useClearActivityFeed, useMaps } from '@/react/state/useDashboard';
+import { ACTIVITY_TITLES, ActivityType } from '@/react/utils/activityFeed';
+
+const ACTIVITY_ICONS: Record<ActivityType, string> = {
+  system_added: 'hero-plus-circle-solid text-green-400',
+  connection_removed: 'hero-scissors-solid text-red-400',
+  connection_eol: 'hero-clock-solid text-purple-400',
+  border_added: 'hero-flag-solid text-orange-400',
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour12: false });
+
+// Collapsible list of what changed between map_cached_data updates, newest first
+export const ActivityFeed = ({ onFocusSystem }: { onFocusSystem: (nodeId: string) => void }) => {
+  const activityFeed = useActivityFeed();
+  const clearActivityFeed = useClearActivityFeed();
+  const maps = useMaps();
+
+  const [expanded, setExpanded] = useState(false);
+
+  const mapColors = useMemo(() => Object.fromEntries(maps.map(m => [m.id, m.color])), [maps]);
+
+  return (
+    <div
+      className="fixed top-12 left-2 z-10 w-64 rounded border border-cyber-primary/30 bg-cyber-dark-800/90 backdrop-blur-md
+                 shadow-[0_0_20px_rgba(0,255,255,0.1)] font-mono"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-2 py-1">
+        <button className="flex items-center gap-1 group" onClick={() => setExpanded(prev => !prev)}>
+          <span
+            className={`${expanded ? 'hero-chevron-down-solid' : 'hero-chevron-right-solid'} w-3 h-3 text-cyber-primary`}
+          />
+          <span className="text-[10px] uppercase tracking-wider text-cyber-primary/80 group-hover:text-cyber-primary">
+            Activity
+          </span>
+          {activityFeed.length > 0 && (
+            <span className="px-1 rounded bg-cyber-primary/20 text-[9px] text-cyber-primary">
+              {activityFeed.length}
+            </span>
+          )}
+        </button>
+        {expanded && activityFeed.length > 0 && (
+          <button
+            className="text-[9px] uppercase text-gray-500 hover:text-cyber-primary transition-colors"
+            onClick={clearActivityFeed}
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="max-h-80 overflow-y-auto border-t border-cyber-primary/20">
+          {activityFeed.length === 0 && (
+            <div className="px-2 py-2 text-[10px] text-gray-500 italic">No changes since the dashboard was opened</div>
+          )}
+          {activityFeed.map(entry => (
+            <button
+              key={entry.id}
+              className="w-full flex items-start gap-1.5 px-2 py-1 text-left border-l-2 border-b border-b-cyber-primary/5
+                         hover:bg-cyber-primary/10 transition-colors"
+              style={{ borderLeftColor: mapColors[entry.mapId] }}
+              onClick={() => onFocusSystem(entry.nodeId)}
+              title="Show on map"
+            >
+              <span className={`${ACTIVITY_ICONS[entry.type]} w-3 h-3 mt-0.5 flex-shrink-0`} />
+              <div className="flex flex-col min-w-0 flex-1">
+                <div className="flex justify-between gap-1 text-[9px]">
+                  <span className="uppercase text-gray-400">{ACTIVITY_TITLES[entry.type]}</span>
+                  <span className="text-gray-600">{formatTime(entry.timestamp)}</span>
+                </div>
+                <span className="text-[10px] text-cyber-primary truncate">{entry.text}</span>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActivityFeed;
@@ -1,8 +1,10 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 
+import { decodeLicenseState, decodeMapCachedData, decodeMaps, firstError } from '@/react/model';
 import { DashboardProvider } from '@/react/state/useDashboard';
 
 import Map from './Map';
+import { PayloadError } from './PayloadError';
 import { Setup } from './Setup';
 
 export const Dashboard = ({
@@ -11,17 +13,25 @@ export const Dashboard = ({
   license_state,
   pushEvent,
 }: {
-  data: any;
-  map_cached_data: any;
-  license_state: any;
+  data: unknown;
+  map_cached_data: unknown;
+  license_state: unknown;
   pushEvent: any;
 }) => {
+  const maps = useMemo(() => decodeMaps(data), [data]);
+  const mapCachedData = useMemo(() => decodeMapCachedData(map_cached_data), [map_cached_data]);
+  const licenseState = useMemo(() => decodeLicenseState(license_state), [license_state]);
+
+  if (!maps.ok || !mapCachedData.ok || !licenseState.ok) {
+    return <PayloadError error={firstError(maps, mapCachedData, licenseState)!} />;
+  }
+
   return (
     <DashboardProvider
       pushEvent={pushEvent}
-      serverMaps={data}
-      mapCachedData={map_cached_data}
-      licenseState={license_state}
+      serverMaps={maps.value}
+      mapCachedData={mapCachedData.value}
+      licenseState={licenseState.value}
     >
       <Map />
       <Setup />
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+
+import { ExportFormat } from '@/react/utils/exportGraph';
+
+const FORMATS: { format: ExportFormat; label: string; icon: string }[] = [
+  { format: 'png', label: 'PNG image', icon: 'hero-photo-solid' },
+  { format: 'svg', label: 'SVG image', icon: 'hero-pencil-square-solid' },
+  { format: 'json', label: 'JSON data', icon: 'hero-code-bracket-solid' },
+];
+
+// Opened from the toolbar "export" item
+export const ExportMenu = ({
+  className,
+  onExport,
+  onClose,
+}: {
+  className: string;
+  onExport: (format: ExportFormat, includeLegend: boolean) => void;
+  onClose: () => void;
+}) => {
+  const [includeLegend, setIncludeLegend] = useState(true);
+
+  return (
+    <div
+      className={`${className} w-44 rounded border border-cyber-primary/30 bg-cyber-dark-800/95 backdrop-blur-md shadow-[0_0_20px_rgba(0,255,255,0.1)]`}
+    >
+      <div className="flex items-center justify-between px-2 py-1 border-b border-cyber-primary/20">
+        <span className="text-[10px] font-mono uppercase tracking-wider text-cyber-primary">Export</span>
+        <button className="p-0.5 hover:bg-cyber-danger/20 rounded transition-colors" onClick={onClose} title="Close">
+          <span className="hero-x-mark-solid w-3 h-3 text-gray-400" />
+        </button>
+      </div>
+
+      <div className="p-1 flex flex-col">
+        {FORMATS.map(({ format, label, icon }) => (
+          <button
+            key={format}
+            className="flex items-center gap-2 px-2 py-1 rounded text-left hover:bg-cyber-primary/10 transition-colors group"
+            onClick={() => onExport(format, includeLegend)}
+          >
+            <span className={`${icon} w-3 h-3 text-cyber-primary/70 group-hover:text-cyber-primary`} />
+            <span className="text-[10px] font-mono text-gray-300 group-hover:text-cyber-primary">{label}</span>
+          </button>
+        ))}
+
+        <label className="flex items-center gap-1.5 px-2 pt-1 mt-1 border-t border-cyber-primary/10 text-[10px] font-mono text-gray-400">
+          <input type="checkbox" checked={includeLegend} onChange={e => setIncludeLegend(e.target.checked)} />
+          Include legend
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ExportMenu;
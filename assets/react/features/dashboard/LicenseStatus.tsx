@@ -1,13 +1,9 @@
 import React, { useState } from 'react';
 
-interface LicenseState {
-  valid: boolean;
-  bot_assigned: boolean;
-  error_message?: string;
-}
+import { LicenseState } from '@/react/model';
 
 interface LicenseStatusProps {
-  licenseState?: LicenseState;
+  licenseState?: LicenseState | null;
 }
 
 const LicenseStatus: React.FC<LicenseStatusProps> = ({ licenseState }) => {
@@ -1,228 +1,331 @@
-import React, { useEffect, useMemo, useRef } from 'react';
-import { Circle as GCircle, Polygon, Text } from '@antv/g';
-import { Circle, ExtensionCategory, Graph, register } from '@antv/g6';
-
-import { useEdges, useMarkAsMain, useNodes } from '@/react/state/useDashboard';
-import { isWormholeSpace } from '@/react/utils/isWormholeSpace';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { EdgeOptions, Graph, GraphEvent, NodeOptions } from '@antv/g6';
+
+import { getDepthColor, getHomeColor } from '@/react/constants/depth';
+import { EdgeStyle } from '@/react/constants/edgeStyles';
+import { ANT_LINE_DASH, registerAnimatedEdges } from '@/react/map/shape/animatedEdges';
+import { registerBreathingCircle } from '@/react/map/shape/breathingCircle';
+import {
+  useEdges,
+  useEdgeStyle,
+  useEffects,
+  useGetSystemUrl,
+  useMaps,
+  useMarkAsMain,
+  useNodes,
+  useRecentChanges,
+  useSetTrafficHome,
+  useToggleMapCollapsed,
+  useUpdateViewPreferences,
+  useViewPreferences,
+} from '@/react/state/useDashboard';
+import { EdgeType } from '@/react/state/useDashboard/useViewPreferences';
+import { getActivityBadges } from '@/react/utils/activityBadges';
+import { getConnectionLineDash, getConnectionLineWidth, getConnectionStroke } from '@/react/utils/connectionStyle';
+import { ExportFormat, exportGraph } from '@/react/utils/exportGraph';
+import { findHomeNodeId, formatDepthLabel } from '@/react/utils/graph';
+import { applyGraphDiff, diffGraphData, isEmptyDiff } from '@/react/utils/graphDiff';
+import { countRecentKills, nowInSeconds } from '@/react/utils/kills';
 import { Maps } from '../maps/Maps';
 
+import { ActivityFeed } from './ActivityFeed';
+import { ExportMenu } from './ExportMenu';
 import useClusters from './hooks/useClusters';
+import useCollapsedMaps, { getCollapsedMapId, getSummaryNodeId } from './hooks/useCollapsedMaps';
+import useHomeDepths from './hooks/useHomeDepths';
+import useLayout from './hooks/useLayout';
+import useRoute from './hooks/useRoute';
+import useSystemFilter from './hooks/useSystemFilter';
+import { MapLegend } from './MapLegend';
+import { RoutePlanner } from './RoutePlanner';
+import { SystemPanel } from './SystemPanel';
+import { Timeline } from './Timeline';
+
+registerBreathingCircle('breathing-circle');
+registerAnimatedEdges();
+
+// Animated connections are always straight, plain ones follow the straight / curved preference
+const getEdgeType = (edgeStyle: EdgeStyle, edgeType: EdgeType) => (edgeStyle === 'line' ? edgeType : edgeStyle);
 
-class BreathingCircle extends Circle {
-  constructor(options) {
-    super(options);
-    // Detect device performance level
-    this.isLowPerformance = this.detectLowPerformance();
-  }
-
-  onCreate() {
-    // Create security value text in center
-    this.createSecurityValueText();
-
-    // Create border indicator for border systems
-    this.createBorderIndicator();
-
-    // Create main system indicator (dotted orange border)
-    this.createMainIndicator();
-  }
-
-  onUpdate() {
-    // Update security value text
-    this.createSecurityValueText();
-
-    // Update border indicator
-    this.createBorderIndicator();
-
-    // Update main system indicator
-    this.createMainIndicator();
-  }
-
-  detectLowPerformance() {
-    // Simple performance detection for older devices
-    // const canvas = document.createElement('canvas');
-    // const gl = canvas.getContext('webgl') || canvas.getContext('experimental-webgl');
-    // const isMobile = /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
-    // const isOldDevice = navigator.hardwareConcurrency && navigator.hardwareConcurrency < 4;
-
-    // return !gl || isMobile || isOldDevice || performance.memory?.usedJSHeapSize > 50000000;
-    return true;
-  }
-
-  createSecurityValueText() {
-    const security = this.attributes.security;
-    const systemClass = this.attributes.systemClass;
-    const isWormhole = isWormholeSpace(systemClass);
-
-    // Only create text if security value exists
-    if (security === undefined || security === null) {
-      return;
-    }
-
-    // Format security value to 1 decimal place
-    const securityText = isWormhole
-      ? `C${systemClass}`
-      : typeof security === 'number'
-        ? security.toFixed(1)
-        : String(security);
-
-    // Determine text color based on security value
-    let textColor = '#FFFFFF'; // Default white
-    if (typeof security === 'number') {
-      if (security >= 0.7) {
-        textColor = '#00BFFF'; // Blue for high security
-      } else if (security >= 0.5) {
-        textColor = '#90EE90'; // Light green for medium-high security
-      } else if (security >= 0.3) {
-        textColor = '#FFA500'; // Orange for medium security
-      } else {
-        textColor = '#FF6B6B'; // Red for low security
-      }
-    }
-
-    // Create or update security text element
-    const securityTextElement = this.upsert(
-      'security-value-text',
-      Text,
-      {
-        x: 0,
-        y: 0,
-        text: securityText,
-        fontSize: 8,
-        fontWeight: 'regular',
-        fill: textColor,
-        textAlign: 'center',
-        textBaseline: 'middle',
-        fontFamily: 'Arial, sans-serif',
-      },
-      this,
-    );
-  }
-
-  getHexagonPoints(radius) {
-    const points = [];
-    for (let i = 0; i < 6; i++) {
-      const angle = (i * Math.PI) / 3;
-      const x = radius * Math.cos(angle);
-      const y = radius * Math.sin(angle);
-      points.push([x, y]);
-    }
-    return points;
-  }
-
-  createBorderIndicator() {
-    // Only create border indicator if the node is marked as a border system
-    if (!this.attributes.isBorder) {
-      return;
-    }
-
-    const size = this.attributes.size || 50;
-    const radius = size / 1.5;
-    const borderColor = 'rgba(255, 165, 0, 0.9)'; // Orange color for border indication
-
-    // Create inner border ring
-    const innerBorderRadius = radius + 4;
-    const innerBorder = this.upsert(
-      'border-inner-ring',
-      Polygon,
-      {
-        points: this.getHexagonPoints(innerBorderRadius),
-        fill: 'transparent',
-        stroke: borderColor,
-        strokeWidth: 1.5,
-        strokeOpacity: 0.6,
-      },
-      this,
-    );
-
-    // Skip animations on low performance devices
-    if (this.isLowPerformance) {
-      return;
-    }
-
-    // Animate inner border pulsing (slightly offset)
-    innerBorder.animate(
-      [
-        { strokeOpacity: 0.6, strokeWidth: 1.5 },
-        { strokeOpacity: 0.3, strokeWidth: 2 },
-      ],
-      {
-        duration: 1500,
-        iterations: Infinity,
-        direction: 'alternate',
-        easing: 'ease-in-out',
-        delay: 750, // Offset by half duration for alternating pulse effect
-      },
-    );
-  }
+const animation = {
+  duration: 500,
+  easing: 'linear',
+};
 
-  createMainIndicator() {
-    // Only create main indicator if the node is marked as main
-    if (!this.attributes.isMain) {
-      return;
-    }
+const FOCUS_ZOOM = 1.5;
+const FLASH_COUNT = 3;
+const FLASH_INTERVAL = 250;
 
-    const size = this.attributes.size || 20;
-    const radius = size / 2 + 3; // Slightly larger than the node
-
-    // Create dotted orange circle border for main systems
-    this.upsert(
-      'main-indicator-ring',
-      GCircle,
-      {
-        cx: 0,
-        cy: 0,
-        r: radius,
-        fill: 'transparent',
-        stroke: '#00f705', // Orange color
-        lineWidth: 1,
-        lineDash: [1, 5], // Dotted pattern: 4px dash, 3px gap
-        strokeOpacity: 0.9,
-      },
-      this,
-    );
-  }
-}
+// Kill counts are recounted every minute so old kills drop out of the window
+const KILL_CLOCK_INTERVAL = 60 * 1000;
 
-register(ExtensionCategory.NODE, 'breathing-circle', BreathingCircle);
+// Viewport changes are persisted once panning / zooming settles
+const VIEWPORT_SAVE_DELAY = 500;
 
-const animation = {
-  duration: 500,
-  easing: 'linear',
+const MINIMAP_PLUGIN = {
+  key: 'minimap',
+  type: 'minimap',
+  size: [160, 100],
+  containerStyleBackground: '#4b4848',
 };
 
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 const Map = () => {
   const containerRef = useRef(null);
   const graphRef = useRef<Graph | null>(null);
 
   const nodes = useNodes();
   const edges = useEdges();
-  const clusters = useClusters(nodes);
+  const { homeDistances, visibleNodes: nodesWithinDepth } = useHomeDepths(nodes, edges);
+  const { visibleNodes, matchingNodes, dimmedIds } = useSystemFilter(nodesWithinDepth);
+  const { nodes: displayedNodes, edges: displayedEdges } = useCollapsedMaps(visibleNodes, edges);
+  const clusters = useClusters(matchingNodes);
+  const maps = useMaps();
+  const toggleMapCollapsed = useToggleMapCollapsed();
   const markAsMain = useMarkAsMain();
+  const getSystemUrl = useGetSystemUrl();
+  const routeState = useRoute(nodes, edges);
+  const recentChanges = useRecentChanges();
+  const setTrafficHome = useSetTrafficHome();
+
+  // System shown in the details panel
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+
+  // System whose connections are highlighted from the context menu
+  const [highlightedNodeId, setHighlightedNodeId] = useState<string | null>(null);
+
+  const handleNodeAction = useCallback(
+    async (action: string, nodeId: string) => {
+      const node = nodes.find(n => n.id === nodeId);
+      if (!node) return;
+
+      switch (action) {
+        case 'mark':
+          await markAsMain(nodeId);
+          break;
+        case 'copy-name':
+          await navigator.clipboard?.writeText(node.data.name);
+          break;
+        case 'open-source': {
+          // Open the tab right away so the browser does not treat it as a popup once the reply arrives
+          const tab = window.open('', '_blank');
+          const url = await getSystemUrl(nodeId);
+          if (url && tab) {
+            tab.location.href = url;
+          } else {
+            tab?.close();
+          }
+          break;
+        }
+        case 'highlight':
+          setHighlightedNodeId(current => (current === nodeId ? null : nodeId));
+          break;
+        case 'traffic-home':
+          setTrafficHome(nodeId);
+          break;
+        case 'route-home': {
+          const homeId = findHomeNodeId(nodes, node.data.mapId);
+          if (homeId && homeId !== nodeId) {
+            routeState.routeBetween(nodeId, homeId);
+          }
+          break;
+        }
+      }
+    },
+    [nodes, markAsMain, getSystemUrl, routeState.routeBetween, setTrafficHome],
+  );
 
-  const ref = useRef({ markAsMain });
-  ref.current = { markAsMain };
+  const viewPreferences = useViewPreferences();
+  const updateViewPreferences = useUpdateViewPreferences();
+  const effects = useEffects();
+  const edgeStyle = useEdgeStyle();
+
+  const [now, setNow] = useState(nowInSeconds);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(nowInSeconds()), KILL_CLOCK_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  const ref = useRef({
+    handleNodeAction,
+    highlightedNodeId,
+    routeState,
+    viewPreferences,
+    updateViewPreferences,
+    toggleMapCollapsed,
+    effects,
+    edgeStyle,
+  });
+  ref.current = {
+    handleNodeAction,
+    highlightedNodeId,
+    routeState,
+    viewPreferences,
+    updateViewPreferences,
+    toggleMapCollapsed,
+    effects,
+    edgeStyle,
+  };
+
+  // Systems per map after filtering, shown in the legend
+  const systemCounts = useMemo(
+    () =>
+      matchingNodes.reduce<Record<string, number>>((acc, node) => {
+        acc[node.data.mapId] = (acc[node.data.mapId] || 0) + 1;
+        return acc;
+      }, {}),
+    [matchingNodes],
+  );
+
+  // Layouts are rooted at the main map's home, or at the summary node of its map while that map is collapsed
+  const [mainHomeId = null] = homeDistances.homeIds;
+  const homeNode = nodes.find(n => n.id === mainHomeId);
+  const layoutRootId =
+    homeNode && viewPreferences.collapsedMaps.includes(homeNode.data.mapId)
+      ? getSummaryNodeId(homeNode.data.mapId)
+      : mainHomeId;
+  const laidOutNodes = useLayout(displayedNodes, displayedEdges, layoutRootId);
 
   // Filter edges and create stable data object
   const data = useMemo(() => {
+    // Removed systems and connections stay on the canvas while they fade out
+    const { addedAt, removedNodes, removedEdges } = recentChanges;
+    const removedIds = new Set<string>([...removedNodes, ...removedEdges].map(el => el.id));
+    const allNodes = [
+      ...laidOutNodes,
+      ...removedNodes
+        .filter(n => !viewPreferences.collapsedMaps.includes(n.data.mapId))
+        .map(n => ({ id: n.id, style: n.style, data: { ...n.data, removed: true } })),
+    ];
+    const allEdges = [
+      ...displayedEdges,
+      ...removedEdges.map(e => ({ id: e.id, source: e.source, target: e.target, data: e.data })),
+    ];
+
     // Filter edges to only include those where both source and target nodes exist
-    const nodeIds = new Set(nodes.map(n => n.id));
-    const validEdges = edges.filter(e => nodeIds.has(e.source) && nodeIds.has(e.target));
-
-    // Debug: Log first node to verify x/y coordinates
-    if (nodes.length > 0) {
-      console.log('[Map] First node data:', {
-        id: nodes[0].id,
-        style: nodes[0].style,
-      });
+    const nodeIds = new Set(allNodes.map(n => n.id));
+    const validEdges = allEdges.filter(e => nodeIds.has(e.source) && nodeIds.has(e.target));
+
+    // Highlight the planned route and the highlighted system's connections through element states
+    const { route, originId, destinationId } = routeState;
+    const routeNodeIds = new Set(route?.nodeIds);
+    const routeEdgeIds = new Set(route?.edgeIds);
+
+    const highlightEdgeIds = new Set<string>();
+    const highlightNodeIds = new Set<string>();
+    if (highlightedNodeId) {
+      highlightNodeIds.add(highlightedNodeId);
+      for (const e of validEdges) {
+        if (e.source !== highlightedNodeId && e.target !== highlightedNodeId) continue;
+        highlightEdgeIds.add(e.id);
+        highlightNodeIds.add(e.source);
+        highlightNodeIds.add(e.target);
+      }
     }
 
-    return { nodes, edges: validEdges };
-  }, [nodes, edges]);
+    const getNodeStates = (id: string) => {
+      const states: string[] = [];
+      if (id === originId || id === destinationId) states.push('routeEndpoint');
+      else if (routeNodeIds.has(id)) states.push('route');
+      if (highlightNodeIds.has(id)) states.push('highlight');
+      if (removedIds.has(id)) states.push('removed');
+      else if (addedAt[id]) states.push('new');
+      if (dimmedIds.has(id)) states.push('dimmed');
+      return states;
+    };
+
+    const getEdgeStates = (id: string, source: string, target: string) => {
+      const states: string[] = [];
+      if (routeEdgeIds.has(id)) states.push('route');
+      if (highlightEdgeIds.has(id)) states.push('highlight');
+      if (removedIds.has(id)) states.push('removed');
+      else if (addedAt[id]) states.push('new');
+      if (dimmedIds.has(source) || dimmedIds.has(target)) states.push('dimmed');
+      return states;
+    };
+
+    return {
+      nodes: allNodes.map(n => {
+        const states = getNodeStates(n.id);
+        const killCount = countRecentKills(n.data.kills, viewPreferences.killWindow, now);
+        const isNew = !!addedAt[n.id];
+        const isTrafficHome = n.id === viewPreferences.trafficHomeId;
+        const depth = homeDistances.depths.get(n.id);
+        const depthData =
+          viewPreferences.depthOverlay && !n.data.collapsed
+            ? { depth: depth ?? null, depthFill: getDepthColor(depth) }
+            : {};
+        const homeData =
+          viewPreferences.homeTint && !n.data.collapsed
+            ? { homeFill: getHomeColor(homeDistances.homeIds, homeDistances.owners.get(n.id)) }
+            : {};
+        const node =
+          killCount || isNew || isTrafficHome || viewPreferences.depthOverlay || viewPreferences.homeTint
+            ? { ...n, data: { ...n.data, killCount, isNew, isTrafficHome, ...depthData, ...homeData } }
+            : n;
+        return states.length ? { ...node, states } : node;
+      }),
+      edges: validEdges.map(e => {
+        const states = getEdgeStates(e.id, e.source, e.target);
+        return states.length ? { ...e, states } : e;
+      }),
+    };
+  }, [
+    laidOutNodes,
+    displayedEdges,
+    routeState.route,
+    routeState.originId,
+    routeState.destinationId,
+    highlightedNodeId,
+    viewPreferences.killWindow,
+    now,
+    recentChanges,
+    homeDistances,
+    viewPreferences.depthOverlay,
+    viewPreferences.homeTint,
+    dimmedIds,
+    viewPreferences.collapsedMaps,
+    viewPreferences.trafficHomeId,
+  ]);
 
   // Store clusters in a ref for plugin updates without recreating the graph
   const clustersRef = useRef(clusters);
   clustersRef.current = clusters;
 
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+
+  // Persist pan / zoom, debounced so dragging the canvas does not write on every frame
+  const viewportTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const isResettingViewRef = useRef(false);
+
+  const saveViewport = useCallback(() => {
+    if (isResettingViewRef.current) return;
+
+    clearTimeout(viewportTimerRef.current);
+    viewportTimerRef.current = setTimeout(() => {
+      const graph = graphRef.current;
+      if (!graph) return;
+
+      const [x, y] = graph.getPosition();
+      ref.current.updateViewPreferences({ viewport: { zoom: graph.getZoom(), position: [x, y] } });
+    }, VIEWPORT_SAVE_DELAY);
+  }, []);
+
+  // Forget the saved viewport and fit everything, as on a first visit
+  const resetView = useCallback(async () => {
+    const graph = graphRef.current;
+    if (!graph) return;
+
+    clearTimeout(viewportTimerRef.current);
+    isResettingViewRef.current = true;
+    await graph.fitView();
+    isResettingViewRef.current = false;
+
+    ref.current.updateViewPreferences({ viewport: null });
+  }, []);
+
   // Create graph configuration - stable, doesn't depend on clusters
   const graphConfig = useMemo(
     () => ({
@@ -244,11 +347,6 @@ const Map = () => {
         },
       ],
       plugins: [
-        {
-          type: 'minimap',
-          size: [160, 100],
-          containerStyleBackground: '#4b4848',
-        },
         {
           type: 'toolbar',
           position: 'bottom-left',
@@ -263,12 +361,19 @@ const Map = () => {
             if (item === 'auto-fit') {
               graphRef.current.fitView();
             }
+            if (item === 'reset-view') {
+              resetView();
+            }
+            if (item === 'export') {
+              setExportMenuOpen(open => !open);
+            }
           },
           getItems: () => {
             return [
               { id: 'zoom-in', value: 'zoom-in' },
               { id: 'zoom-out', value: 'zoom-out' },
               { id: 'auto-fit', value: 'auto-fit' },
+              { id: 'reset', value: 'reset-view' },
               { id: 'export', value: 'export' },
             ];
           },
@@ -277,17 +382,22 @@ const Map = () => {
           type: 'contextmenu',
           trigger: 'contextmenu',
           onClick: (type: string, _target: any, current: any) => {
-            const { markAsMain } = ref.current;
-            if (type === 'mark') {
-              markAsMain(current.id);
-            }
+            ref.current.handleNodeAction(type, current.id);
           },
-          getItems: e => {
+          getItems: (e: any) => {
+            const isHighlighted = ref.current.highlightedNodeId === e.target?.id;
+            const isTrafficHome = ref.current.viewPreferences.trafficHomeId === e.target?.id;
             return [
-              // { name: 'Set as main for map', value: 'mark' }
+              { name: 'Set as home for its map', value: 'mark' },
+              { name: 'Copy system name', value: 'copy-name' },
+              { name: 'Open on source map', value: 'open-source' },
+              { name: isHighlighted ? 'Clear connection highlight' : 'Highlight connections', value: 'highlight' },
+              { name: 'Route to home', value: 'route-home' },
+              { name: isTrafficHome ? 'Clear traffic home' : 'Set as traffic home', value: 'traffic-home' },
             ];
           },
-          enable: e => e.targetType === 'node',
+          // System actions do not apply to collapsed map summary nodes
+          enable: e => e.targetType === 'node' && !getCollapsedMapId(e.target.id),
         },
       ],
       // No layout - use predefined x/y coordinates from node data directly
@@ -303,8 +413,9 @@ const Map = () => {
           enter: false,
         },
         style: {
-          size: 20,
-          fill: d => d.data.bgFill,
+          // Summary nodes of collapsed maps are drawn larger than systems
+          size: (d: any) => (d.data.collapsed ? 40 : 20),
+          fill: d => d.data.homeFill || d.data.depthFill || d.data.bgFill,
           patternType: d => d.data.patternType || 'honeycomb',
           starIntensity: d => d.data.starIntensity || 0.8,
           tacticalColor: d => d.data.tacticalColor || 'rgba(0, 255, 255, 0.8)',
@@ -320,28 +431,22 @@ const Map = () => {
           labelFontFamily: 'Arial',
           labelFontSize: '20',
           labelPadding: [0, 4],
-          labelText: d => d.data.name,
+          labelText: (d: any) => formatDepthLabel(d.data.name, d.data.depth),
           halo: false,
           isMain: d => !!d.data.isMain,
           isBorder: d => d.data.isBorder || false,
           borderMaps: d => d.data.borderMaps || [],
-          badges: d =>
-            d.id === 'badges'
-              ? [
-                  {
-                    text: 'A',
-                    placement: 'right-top',
-                  },
-                  {
-                    text: 'Important',
-                    placement: 'right',
-                  },
-                  {
-                    text: 'Notice',
-                    placement: 'right-bottom',
-                  },
-                ]
-              : [],
+          badges: (d: any) =>
+            getActivityBadges(d.data, {
+              killCount: d.data.killCount,
+              isNew: d.data.isNew,
+              isTrafficHome: d.data.isTrafficHome,
+            }),
+          badgeFill: '#ffffff',
+          rally: d => !!d.data.rally,
+          killCount: (d: any) => d.data.killCount || 0,
+          removed: (d: any) => !!d.data.removed,
+          animated: () => !ref.current.effects.reduced,
           badgeFontSize: 8,
           badgePadding: [1, 4],
           portR: 3,
@@ -350,11 +455,56 @@ const Map = () => {
               ? [{ placement: 'left' }, { placement: 'right' }, { placement: 'top' }, { placement: 'bottom' }]
               : [],
         },
+        state: {
+          route: {
+            halo: true,
+            haloStroke: '#00ff88',
+            haloLineWidth: 8,
+            haloStrokeOpacity: 0.5,
+          },
+          routeEndpoint: {
+            halo: true,
+            haloStroke: '#00ffff',
+            haloLineWidth: 12,
+            haloStrokeOpacity: 0.7,
+          },
+          flash: {
+            halo: true,
+            haloStroke: '#ffffff',
+            haloLineWidth: 16,
+            haloStrokeOpacity: 0.9,
+          },
+          highlight: {
+            halo: true,
+            haloStroke: '#ffcc00',
+            haloLineWidth: 10,
+            haloStrokeOpacity: 0.6,
+          },
+          new: {
+            halo: true,
+            haloStroke: '#39ff14',
+            haloLineWidth: 10,
+            haloStrokeOpacity: 0.6,
+          },
+          removed: {
+            halo: false,
+            labelOpacity: 0.4,
+          },
+          dimmed: {
+            opacity: 0.2,
+            halo: false,
+          },
+        },
       },
       edge: {
-        type: 'line',
+        type: getEdgeType(ref.current.edgeStyle, ref.current.viewPreferences.edgeType),
         style: {
-          lineWidth: 5,
+          // Mass status drives the colour, ship size the width and EOL the dash pattern
+          stroke: (e: any) => getConnectionStroke(e.data.massStatus),
+          lineWidth: (e: any) => getConnectionLineWidth(e.data.shipSizeType, 5),
+          lineDash: (e: any) =>
+            getConnectionLineDash(e.data.timeStatus, ref.current.edgeStyle === 'ant-line' ? ANT_LINE_DASH : undefined),
+          animated: () => !ref.current.effects.reduced,
           labelPosition: 'center',
           labelTextBaseline: 'top',
           labelDy: 5,
@@ -371,6 +521,37 @@ const Map = () => {
           labelWordWrap: true,
           labelMaxLines: 4,
         },
+        state: {
+          route: {
+            stroke: '#00ff88',
+            halo: true,
+            haloStroke: '#00ff88',
+            haloLineWidth: 10,
+            haloStrokeOpacity: 0.3,
+          },
+          highlight: {
+            stroke: '#ffcc00',
+            halo: true,
+            haloStroke: '#ffcc00',
+            haloLineWidth: 10,
+            haloStrokeOpacity: 0.4,
+          },
+          new: {
+            stroke: '#39ff14',
+            halo: true,
+            haloStroke: '#39ff14',
+            haloLineWidth: 10,
+            haloStrokeOpacity: 0.4,
+          },
+          removed: {
+            strokeOpacity: 0.25,
+            lineDash: [4, 4],
+            labelOpacity: 0.25,
+          },
+          dimmed: {
+            opacity: 0.15,
+          },
+        },
       },
     }),
     [], // Empty deps - config is now stable
@@ -397,13 +578,47 @@ const Map = () => {
       ...graphConfig,
       width,
       height,
-      plugins: [...graphConfig.plugins, ...clustersRef.current],
+      plugins: [
+        ...(ref.current.viewPreferences.minimapVisible ? [MINIMAP_PLUGIN] : []),
+        ...graphConfig.plugins,
+        ...clustersRef.current,
+      ],
       container,
     });
 
     graphRef.current = graph;
     isInitialRenderDone.current = false;
 
+    // Clicking a system opens its details, or picks the route origin / destination in route mode.
+    // Clicking a collapsed map's summary node expands the map again
+    graph.on('node:click', (evt: any) => {
+      const { routeState, toggleMapCollapsed } = ref.current;
+      if (!evt.target?.id) return;
+      const collapsedMapId = getCollapsedMapId(evt.target.id);
+      if (collapsedMapId) {
+        toggleMapCollapsed(collapsedMapId);
+      } else if (routeState.active) {
+        routeState.pickSystem(evt.target.id);
+      } else {
+        setSelectedNodeId(evt.target.id);
+      }
+    });
+    graph.on('canvas:click', () => setSelectedNodeId(null));
+
+    // Dragged systems (and the selection dragged along with them) are pinned where they were dropped
+    graph.on('node:dragend', (evt: any) => {
+      const { viewPreferences, updateViewPreferences } = ref.current;
+      if (!evt.target?.id) return;
+
+      const draggedIds = new Set([evt.target.id, ...graph.getElementDataByState('node', 'selected').map(n => n.id)]);
+      const pinnedNodes = { ...viewPreferences.pinnedNodes };
+      for (const id of draggedIds) {
+        const [x, y] = graph.getElementPosition(id);
+        pinnedNodes[id] = [x, y];
+      }
+      updateViewPreferences({ pinnedNodes });
+    });
+
     // Handle resize
     const resizeObserver = new ResizeObserver(entries => {
       for (const entry of entries) {
@@ -418,6 +633,7 @@ const Map = () => {
 
     return () => {
       resizeObserver.disconnect();
+      clearTimeout(viewportTimerRef.current);
       if (container) {
         container.innerHTML = '';
       }
@@ -438,73 +654,135 @@ const Map = () => {
     graphRef.current.setPlugins([...nonHullPlugins, ...clusters]);
   }, [clusters]);
 
-  // Track previous data to detect changes
-  const lastRenderedDataRef = useRef<string>('');
+  // Show or hide the minimap when the preference changes
+  useEffect(() => {
+    if (!graphRef.current || !isInitialRenderDone.current) return;
 
-  // Update data when it changes
+    const otherPlugins = graphRef.current.getPlugins().filter((plugin: any) => plugin?.key !== 'minimap');
+    graphRef.current.setPlugins(viewPreferences.minimapVisible ? [MINIMAP_PLUGIN, ...otherPlugins] : otherPlugins);
+  }, [viewPreferences.minimapVisible]);
+
+  // Switch between straight, curved and animated connections
   useEffect(() => {
-    console.log('[Map] Data effect triggered', {
-      hasGraph: !!graphRef.current,
-      nodeCount: data?.nodes?.length,
-      edgeCount: data?.edges?.length,
-      edgeIds: data?.edges?.map(e => e.id),
-    });
+    if (!graphRef.current || !isInitialRenderDone.current) return;
 
-    if (!graphRef.current || !data?.nodes?.length) return;
+    graphRef.current.setEdge({
+      ...graphConfig.edge,
+      type: getEdgeType(edgeStyle, viewPreferences.edgeType),
+    } as EdgeOptions);
+    graphRef.current.draw();
+  }, [viewPreferences.edgeType, edgeStyle]);
 
-    const graph = graphRef.current;
+  // Start or stop the node animations when reduced effects are switched
+  useEffect(() => {
+    if (!graphRef.current || !isInitialRenderDone.current) return;
 
-    // Create a hash of current data to detect any changes (including position updates)
-    const dataHash = JSON.stringify({
-      nodes: data.nodes.map(n => ({ id: n.id, x: n.style?.x, y: n.style?.y })).sort((a, b) => a.id.localeCompare(b.id)),
-      edges: data.edges.map(e => e.id).sort(),
-    });
+    graphRef.current.setNode(graphConfig.node as NodeOptions);
+    graphRef.current.draw();
+  }, [effects.reduced]);
 
-    const hasChanges = dataHash !== lastRenderedDataRef.current;
+  // Last data applied to the graph, diffed against on every update
+  const lastRenderedDataRef = useRef<typeof data | null>(null);
+  const lastLayoutRef = useRef(viewPreferences.layout);
 
-    console.log('[Map] Change detection:', {
-      hasChanges,
-      isInitialRenderDone: isInitialRenderDone.current,
-      currentHash: dataHash.substring(0, 100),
-      lastHash: lastRenderedDataRef.current.substring(0, 100),
-    });
+  // Update data when it changes
+  useEffect(() => {
+    if (!graphRef.current) return;
 
-    // Initial render
+    const graph = graphRef.current;
+
+    // Initial render, once there is something to fit the view on
     if (!isInitialRenderDone.current) {
-      console.log('[Map] Initial graph render:', { nodeCount: data.nodes.length });
+      if (!data.nodes.length) return;
 
       graph.setData(data);
-      graph.render().then(() => {
-        graph.fitView();
+      graph.render().then(async () => {
+        // Restore where the user left the view, or fit everything on first visit
+        const { viewport } = ref.current.viewPreferences;
+        if (viewport) {
+          await graph.zoomTo(viewport.zoom, false);
+          await graph.translateTo(viewport.position, false);
+        } else {
+          await graph.fitView();
+        }
+        graph.on(GraphEvent.AFTER_TRANSFORM, saveViewport);
+
         isInitialRenderDone.current = true;
-        lastRenderedDataRef.current = dataHash;
+        lastRenderedDataRef.current = data;
       });
       return;
     }
 
-    // Skip if no changes
-    if (!hasChanges) {
-      console.log('[Map] Skipping - no changes detected');
-      return;
-    }
+    // Only touch what changed, so untouched nodes keep their shapes and animations
+    const diff = diffGraphData(lastRenderedDataRef.current, data);
 
-    console.log('[Map] Graph update:', {
-      nodes: data.nodes.length,
-      edges: data.edges.length,
-    });
+    if (isEmptyDiff(diff)) return;
 
-    // Always use setData + render for reliability
-    graph.setData(data);
-    graph.render().then(() => {
-      lastRenderedDataRef.current = dataHash;
-      console.log('[Map] Graph render complete');
+    lastRenderedDataRef.current = data;
+    // After switching layouts the systems end up somewhere else, so the view follows them
+    const layoutChanged = lastLayoutRef.current !== viewPreferences.layout;
+    lastLayoutRef.current = viewPreferences.layout;
+    applyGraphDiff(graph, diff).then(() => {
+      if (layoutChanged) graph.fitView(undefined, animation);
     });
   }, [data]);
 
+  // Center and zoom on a system, then blink it so it is easy to spot
+  const focusSystem = useCallback(async (nodeId: string) => {
+    const graph = graphRef.current;
+    if (!graph || !graph.getNodeData().some(n => n.id === nodeId)) return;
+
+    await graph.zoomTo(FOCUS_ZOOM, animation);
+    await graph.focusElement(nodeId, animation);
+
+    const baseStates = graph.getElementState(nodeId).filter(state => state !== 'flash');
+    for (let i = 0; i < FLASH_COUNT * 2; i++) {
+      if (graphRef.current !== graph) return;
+      await graph.setElementState(nodeId, i % 2 === 0 ? [...baseStates, 'flash'] : baseStates, false);
+      await wait(FLASH_INTERVAL);
+    }
+  }, []);
+
+  // Export the whole dashboard, with hulls labelled by map title and an optional map colour legend
+  const handleExport = useCallback(
+    async (format: ExportFormat, includeLegend: boolean) => {
+      const graph = graphRef.current;
+      if (!graph) return;
+
+      const visibleMaps = maps.filter(map => clustersRef.current.some(c => c.key === map.id && c.members.length));
+
+      await exportGraph(graph, format, {
+        filename: 'wanderer-dashboard',
+        legend: includeLegend ? visibleMaps.map(map => ({ label: map.title, color: map.color })) : null,
+        clusters: visibleMaps.map(map => ({
+          key: map.id,
+          label: map.title,
+          color: map.color,
+          members: clustersRef.current.find(c => c.key === map.id)?.members || [],
+        })),
+      });
+      setExportMenuOpen(false);
+    },
+    [maps],
+  );
+
   return (
     <div className="h-screen overflow-hidden bg-gray-900 text-gray-100">
       {/* Topbar (fixed position) */}
-      <Maps />
+      <Maps onFocusSystem={focusSystem} />
+      <ActivityFeed onFocusSystem={focusSystem} />
+      <RoutePlanner nodes={nodes} routeState={routeState} />
+      <SystemPanel nodeId={selectedNodeId} onClose={() => setSelectedNodeId(null)} />
+      <Timeline />
+      <MapLegend systemCounts={systemCounts} />
+      {/* Beside the bottom-left toolbar (8px inset, five 24px items); the legend sits above it */}
+      {exportMenuOpen && (
+        <ExportMenu
+          className="fixed bottom-2 left-36 z-20"
+          onExport={handleExport}
+          onClose={() => setExportMenuOpen(false)}
+        />
+      )}
 
       {/* Main Content - uses calc to subtract header height */}
       <main className="w-full bg-gray-800" style={{ height: 'calc(100vh - 40px)', marginTop: '40px' }}>
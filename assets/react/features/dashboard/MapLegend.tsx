@@ -0,0 +1,49 @@
+import React from 'react';
+
+import { useMaps, useToggleMapCollapsed, useViewPreferences } from '@/react/state/useDashboard';
+
+// Which hull colour belongs to which map, with a collapse / expand toggle per map
+export const MapLegend = ({ systemCounts }: { systemCounts: Record<string, number> }) => {
+  const maps = useMaps();
+  const { hiddenMaps, collapsedMaps } = useViewPreferences();
+  const toggleMapCollapsed = useToggleMapCollapsed();
+
+  const visibleMaps = maps.filter(map => !hiddenMaps.includes(map.id));
+  if (!visibleMaps.length) return null;
+
+  return (
+    <div
+      className="fixed bottom-12 left-2 z-10 flex flex-col py-1 rounded font-mono border border-cyber-primary/30
+                 bg-cyber-dark-800/90 backdrop-blur-md shadow-[0_0_20px_rgba(0,255,255,0.1)]"
+    >
+      {visibleMaps.map(map => {
+        const collapsed = collapsedMaps.includes(map.id);
+
+        return (
+          <div key={map.id} className="flex items-center gap-1.5 px-2 py-0.5">
+            <span className="w-2.5 h-2.5 rounded-sm flex-shrink-0" style={{ backgroundColor: map.color }} />
+            <span className="flex-1 text-[10px] text-gray-300 truncate max-w-[120px]">{map.title}</span>
+            <span className="text-[9px] text-gray-500">{systemCounts[map.id] ?? 0}</span>
+            <span
+              className={`w-1.5 h-1.5 rounded-full ${map.started ? 'bg-cyber-accent' : 'bg-cyber-danger'}`}
+              title={map.started ? 'Started' : 'Stopped'}
+            />
+            <button
+              className="p-0.5 rounded hover:bg-cyber-primary/10 transition-colors"
+              onClick={() => toggleMapCollapsed(map.id)}
+              title={collapsed ? 'Expand map' : 'Collapse map into one node'}
+            >
+              <span
+                className={`${
+                  collapsed ? 'hero-arrows-pointing-out-solid' : 'hero-arrows-pointing-in-solid'
+                } block w-3 h-3 text-cyber-primary/70 hover:text-cyber-primary`}
+              />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MapLegend;
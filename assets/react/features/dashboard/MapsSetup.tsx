@@ -1,20 +1,28 @@
-import React, { useEffect, useMemo, useRef } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Circle as GCircle, Path } from '@antv/g';
 import { Circle, ExtensionCategory, Graph, register } from '@antv/g6';
 
 import {
+  useEffects,
   useMapEdges,
   useMapLicenseState,
   useMapNodes,
+  useMaps,
   useMarkMapAsMain,
   useShowSetup,
 } from '@/react/state/useDashboard';
+import { ExportFormat, exportGraph } from '@/react/utils/exportGraph';
 
+import { ExportMenu } from './ExportMenu';
 import LicenseStatus from './LicenseStatus';
 
 // Cyber-themed circle node for maps setup
 class CyberCircle extends Circle {
+  // Whether the scan ring and status pulse were animated at the last draw
+  declare private animated?: boolean;
+
   onCreate() {
+    this.syncAnimated();
     this.createOuterRing();
     this.createScanRing();
     // this.createCornerBrackets();
@@ -22,12 +30,23 @@ class CyberCircle extends Circle {
   }
 
   onUpdate() {
+    this.syncAnimated();
     this.createOuterRing();
     this.createScanRing();
     // this.createCornerBrackets();
     this.createStatusIndicator();
   }
 
+  // Animations only start with a shape, so switching reduced effects on or off redraws the animated ones
+  private syncAnimated() {
+    const animated = (this.attributes as { animated?: boolean }).animated !== false;
+    if (this.animated !== undefined && this.animated !== animated) {
+      this.upsert('cyber-scan-arc', Path, false, this);
+      this.upsert('cyber-status-dot', GCircle, false, this);
+    }
+    this.animated = animated;
+  }
+
   // Outer glowing ring
   createOuterRing() {
     const size = this.attributes.size || 20;
@@ -79,6 +98,7 @@ class CyberCircle extends Circle {
     // Arc segment for scanning effect
     const arcPath = this.createArcPath(0, 0, radius, 0, Math.PI / 2);
 
+    const isNew = !this.shapeMap['cyber-scan-arc'];
     const scanArc = this.upsert(
       'cyber-scan-arc',
       Path,
@@ -92,12 +112,14 @@ class CyberCircle extends Circle {
       this,
     );
 
-    // Animate rotation
-    scanArc.animate([{ transform: 'rotate(0deg)' }, { transform: 'rotate(360deg)' }], {
-      duration: 3000,
-      iterations: Infinity,
-      easing: 'linear',
-    });
+    // Animate rotation, once: updates keep the running animation
+    if (isNew && this.animated) {
+      scanArc.animate([{ transform: 'rotate(0deg)' }, { transform: 'rotate(360deg)' }], {
+        duration: 3000,
+        iterations: Infinity,
+        easing: 'linear',
+      });
+    }
   }
 
   // Create arc path for scan effect
@@ -152,6 +174,7 @@ class CyberCircle extends Circle {
     const isMain = this.attributes.halo;
 
     // Small status dot
+    const isNew = !this.shapeMap['cyber-status-dot'];
     const statusDot = this.upsert(
       'cyber-status-dot',
       GCircle,
@@ -168,7 +191,7 @@ class CyberCircle extends Circle {
     );
 
     // Pulse animation for main nodes
-    if (isMain) {
+    if (isNew && isMain && this.animated) {
       statusDot.animate([{ opacity: 1 }, { opacity: 0.4 }], {
         duration: 1000,
         iterations: Infinity,
@@ -197,9 +220,13 @@ const MapsSetup = () => {
   const licenseState = useMapLicenseState();
   const markMapAsMain = useMarkMapAsMain();
   const showSetup = useShowSetup();
+  const maps = useMaps();
+  const effects = useEffects();
+
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
 
-  const ref = useRef({ markMapAsMain });
-  ref.current = { markMapAsMain };
+  const ref = useRef({ markMapAsMain, effects });
+  ref.current = { markMapAsMain, effects };
 
   const data = useMemo(
     () => ({
@@ -245,6 +272,9 @@ const MapsSetup = () => {
               if (item === 'auto-fit') {
                 graphRef.current.fitView();
               }
+              if (item === 'export') {
+                setExportMenuOpen(open => !open);
+              }
             },
             getItems: () => {
               return [
@@ -302,6 +332,7 @@ const MapsSetup = () => {
             labelPadding: [2, 6],
             labelText: d => d.data.name,
             halo: d => !!d.data.isMain,
+            animated: () => !ref.current.effects.reduced,
             fill: d => d.data.color || '#0a84ff',
             stroke: '#00f0ff',
             lineWidth: 1,
@@ -414,6 +445,15 @@ const MapsSetup = () => {
     };
   }, []);
 
+  // Start or stop the node animations when reduced effects are switched
+  useEffect(() => {
+    const graph = graphRef.current as Graph | null;
+    if (!graph || !dataAddedRef.current) return;
+
+    graph.setNode(graph.getOptions().node!);
+    graph.draw();
+  }, [effects.reduced]);
+
   // Update graph when data changes
   useEffect(() => {
     if (graphRef.current && data) {
@@ -431,6 +471,21 @@ const MapsSetup = () => {
     }
   }, [data]);
 
+  // The setup graph has no hulls; its legend lists the maps by colour
+  const handleExport = useCallback(
+    async (format: ExportFormat, includeLegend: boolean) => {
+      if (!graphRef.current) return;
+
+      await exportGraph(graphRef.current, format, {
+        filename: 'wanderer-maps-setup',
+        legend: includeLegend ? maps.map(map => ({ label: map.title, color: map.color })) : null,
+        clusters: [],
+      });
+      setExportMenuOpen(false);
+    },
+    [maps],
+  );
+
   return (
     <div className="h-[340px] z-[100] fixed top-0 left-0 right-0 text-gray-100">
       {/* Cyber panel background */}
@@ -459,6 +514,14 @@ const MapsSetup = () => {
           style={{ width: 'calc(100% - 5px)', height: 'calc(100% - 5px)' }}
         />
 
+        {exportMenuOpen && (
+          <ExportMenu
+            className="absolute bottom-12 left-3 z-20"
+            onExport={handleExport}
+            onClose={() => setExportMenuOpen(false)}
+          />
+        )}
+
         {/* Close button */}
         <button
           className="absolute top-3 right-3 z-20 p-2 rounded border border-cyber-primary/30
@@ -0,0 +1,23 @@
+import React from 'react';
+
+import { DecodeError } from '@/react/model';
+
+// Shown instead of the graph when a LiveView prop does not match the model
+export const PayloadError = ({ error }: { error: DecodeError }) => {
+  return (
+    <div className="h-screen flex items-center justify-center bg-gray-900 text-gray-100">
+      <div className="max-w-xl mx-4 p-4 rounded border border-cyber-danger/50 bg-cyber-dark-800/90 shadow-[0_0_20px_rgba(255,51,102,0.2)]">
+        <div className="flex items-center gap-2 mb-2">
+          <span className="hero-exclamation-triangle-solid w-4 h-4 text-cyber-danger" />
+          <span className="text-xs font-mono uppercase tracking-wider text-cyber-danger">Invalid map data</span>
+        </div>
+        <p className="text-xs font-mono text-gray-300 mb-2">
+          The server sent data the dashboard does not understand, so the map was not rendered.
+        </p>
+        <pre className="text-[11px] font-mono text-cyber-primary/80 whitespace-pre-wrap break-all">{error.message}</pre>
+      </div>
+    </div>
+  );
+};
+
+export default PayloadError;
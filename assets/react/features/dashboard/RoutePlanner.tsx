@@ -0,0 +1,161 @@
+import React, { useMemo } from 'react';
+
+import { SystemNode } from '@/react/model';
+import { useMaps } from '@/react/state/useDashboard';
+
+import { RouteState } from './hooks/useRoute';
+
+const SECURITY_OPTIONS = [
+  { label: 'Any', value: null },
+  { label: '≥ 0.0', value: 0 },
+  { label: '≥ 0.1', value: 0.1 },
+  { label: '≥ 0.5', value: 0.5 },
+];
+
+const SystemSlot = ({ label, node }: { label: string; node: SystemNode | undefined }) => (
+  <div className="flex items-center justify-between gap-2 px-2 py-1 rounded border border-cyber-primary/20 bg-cyber-dark-900/60">
+    <span className="text-[9px] font-mono uppercase text-gray-500">{label}</span>
+    <span className={`text-[11px] font-mono ${node ? 'text-cyber-primary' : 'text-gray-600 italic'}`}>
+      {node ? node.data.name : 'click a system'}
+    </span>
+  </div>
+);
+
+export const RoutePlanner = ({ nodes, routeState }: { nodes: SystemNode[]; routeState: RouteState }) => {
+  const maps = useMaps();
+  const { active, originId, destinationId, options, route, toggle, swap, clear, updateOptions } = routeState;
+
+  const nodesById = useMemo(() => new Map(nodes.map(n => [n.id, n])), [nodes]);
+
+  if (!active) {
+    return (
+      <button
+        className="fixed top-12 right-2 z-10 flex items-center gap-1 px-2 py-1 rounded border border-cyber-primary/30
+                   bg-cyber-dark-800/80 hover:border-cyber-primary hover:bg-cyber-primary/10 transition-all duration-200 group"
+        onClick={toggle}
+        title="Plan a route between two systems"
+      >
+        <span className="hero-map-solid w-3 h-3 text-cyber-primary" />
+        <span className="text-[9px] font-mono font-medium uppercase text-cyber-primary/80 group-hover:text-cyber-primary">
+          Route
+        </span>
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed top-12 right-2 z-10 w-64 rounded border border-cyber-primary/30 bg-cyber-dark-800/90 backdrop-blur-md shadow-[0_0_20px_rgba(0,255,255,0.1)]">
+      {/* Header */}
+      <div className="flex items-center justify-between px-2 py-1 border-b border-cyber-primary/20">
+        <div className="flex items-center gap-1">
+          <span className="hero-map-solid w-3 h-3 text-cyber-primary" />
+          <span className="text-[10px] font-mono uppercase tracking-wider text-cyber-primary">Route planner</span>
+        </div>
+        <button className="p-0.5 hover:bg-cyber-danger/20 rounded transition-colors" onClick={toggle} title="Close">
+          <span className="hero-x-mark-solid w-3 h-3 text-gray-400" />
+        </button>
+      </div>
+
+      <div className="p-2 flex flex-col gap-1.5">
+        {/* Origin / destination */}
+        <SystemSlot label="From" node={originId ? nodesById.get(originId) : undefined} />
+        <SystemSlot label="To" node={destinationId ? nodesById.get(destinationId) : undefined} />
+        <div className="flex gap-1">
+          <button
+            className="flex-1 text-[9px] font-mono uppercase px-2 py-0.5 rounded border border-cyber-primary/20 text-cyber-primary/80
+                       hover:border-cyber-primary/50 disabled:opacity-40 disabled:pointer-events-none"
+            onClick={swap}
+            disabled={!originId || !destinationId}
+          >
+            Swap
+          </button>
+          <button
+            className="flex-1 text-[9px] font-mono uppercase px-2 py-0.5 rounded border border-cyber-primary/20 text-cyber-primary/80
+                       hover:border-cyber-primary/50 disabled:opacity-40 disabled:pointer-events-none"
+            onClick={clear}
+            disabled={!originId}
+          >
+            Clear
+          </button>
+        </div>
+
+        {/* Options */}
+        <div className="flex flex-col gap-1 pt-1 border-t border-cyber-primary/10">
+          <label className="flex items-center gap-1.5 text-[10px] font-mono text-gray-300">
+            <input
+              type="checkbox"
+              checked={options.avoidCritical}
+              onChange={e => updateOptions({ avoidCritical: e.target.checked })}
+            />
+            Avoid critical mass
+          </label>
+          <label className="flex items-center gap-1.5 text-[10px] font-mono text-gray-300">
+            <input
+              type="checkbox"
+              checked={options.avoidEol}
+              onChange={e => updateOptions({ avoidEol: e.target.checked })}
+            />
+            Avoid end of life
+          </label>
+          <label className="flex items-center justify-between text-[10px] font-mono text-gray-300">
+            Min security
+            <select
+              className="bg-cyber-dark-900 border border-cyber-primary/20 rounded text-[10px] py-0 pl-1 pr-6"
+              value={options.minSecurity === null ? '' : String(options.minSecurity)}
+              onChange={e => updateOptions({ minSecurity: e.target.value === '' ? null : parseFloat(e.target.value) })}
+            >
+              {SECURITY_OPTIONS.map(option => (
+                <option key={option.label} value={option.value === null ? '' : String(option.value)}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {/* Result */}
+        {originId && destinationId && (
+          <div className="pt-1 border-t border-cyber-primary/10">
+            {!route ? (
+              <span className="text-[10px] font-mono text-cyber-danger">No route with the current options</span>
+            ) : (
+              <div className="flex flex-col gap-1 text-[10px] font-mono text-gray-300">
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Jumps</span>
+                  <span className="text-cyber-accent">{route.jumps}</span>
+                </div>
+                <div className="flex justify-between gap-2">
+                  <span className="text-gray-500">Maps</span>
+                  <div className="flex flex-wrap justify-end gap-1">
+                    {route.mapsCrossed.map(mapId => {
+                      const map = maps.find(m => m.id === mapId);
+                      return (
+                        <span
+                          key={mapId}
+                          className="px-1 rounded border-b-2 bg-cyber-dark-900/60 uppercase text-[9px]"
+                          style={{ borderColor: map?.color }}
+                        >
+                          {map?.title ?? mapId}
+                        </span>
+                      );
+                    })}
+                  </div>
+                </div>
+                <div className="flex justify-between gap-2">
+                  <span className="text-gray-500">Borders</span>
+                  <span className="text-right text-orange-400">
+                    {route.borderSystems.length
+                      ? route.borderSystems.map(id => nodesById.get(id)?.data.name ?? id).join(', ')
+                      : 'none'}
+                  </span>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoutePlanner;
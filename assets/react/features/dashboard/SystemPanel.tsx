@@ -0,0 +1,186 @@
+import React, { useMemo } from 'react';
+
+import { SYSTEM_CLASS_LABELS } from '@/react/constants/classes';
+import {
+  MASS_STATUS_COLORS,
+  MASS_STATUS_TITLES,
+  SHIP_SIZE_TITLES,
+  TIME_STATUS,
+  TIME_STATUS_TITLES,
+} from '@/react/constants/connections';
+import { useEdges, useMapData, useMaps, useNodes } from '@/react/state/useDashboard';
+import { getBackgroundClass } from '@/react/utils/getBackgroundClass';
+import { countRecentKills, nowInSeconds } from '@/react/utils/kills';
+
+const Row = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div className="flex justify-between gap-2 py-0.5">
+    <span className="text-gray-500">{label}</span>
+    <span className="text-right text-gray-200">{children}</span>
+  </div>
+);
+
+const Section = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <div className="px-3 py-2 border-b border-cyber-primary/10">
+    <div className="mb-1 text-[9px] uppercase tracking-wider text-cyber-primary/70">{title}</div>
+    {children}
+  </div>
+);
+
+// Slide-in details for the selected system; read-only, so it works the same on shared dashboards
+export const SystemPanel = ({ nodeId, onClose }: { nodeId: string | null; onClose: () => void }) => {
+  const nodes = useNodes();
+  const edges = useEdges();
+  const maps = useMaps();
+  const mapData = useMapData();
+
+  const node = useMemo(() => nodes.find(n => n.id === nodeId), [nodes, nodeId]);
+
+  const system = useMemo(() => {
+    if (!node) return undefined;
+    const data = mapData[node.data.mapId];
+    return [...(data?.systems || []), ...(data?.shared_systems || [])].find(
+      s => s.solar_system_id === node.data.systemEveId,
+    );
+  }, [mapData, node]);
+
+  const connections = useMemo(() => {
+    if (!node) return [];
+    return edges
+      .filter(e => e.source === node.id || e.target === node.id)
+      .map(e => ({ edge: e, other: nodes.find(n => n.id === (e.source === node.id ? e.target : e.source)) }));
+  }, [edges, nodes, node]);
+
+  const staticInfo = system?.static_info;
+  const sourceMap = maps.find(m => m.id === node?.data.mapId);
+
+  return (
+    <aside
+      className={`fixed top-10 right-0 bottom-0 z-20 w-72 overflow-y-auto font-mono text-[10px]
+                  bg-cyber-dark-800/95 backdrop-blur-md border-l border-cyber-primary/30 shadow-[0_0_20px_rgba(0,255,255,0.1)]
+                  transition-transform duration-200 ${node ? 'translate-x-0' : 'translate-x-full'}`}
+    >
+      {node && (
+        <>
+          {/* Header */}
+          <div className="flex items-start justify-between px-3 py-2 border-b border-cyber-primary/20">
+            <div className="flex items-center gap-2 min-w-0">
+              {staticInfo && (
+                <div
+                  className="w-3 h-3 rounded-full flex-shrink-0"
+                  style={{ backgroundColor: getBackgroundClass(staticInfo.system_class, staticInfo.security) }}
+                />
+              )}
+              <div className="flex flex-col min-w-0">
+                <span className="text-sm text-cyber-primary truncate">{node.data.customName || node.data.name}</span>
+                {(node.data.customName || node.data.temporaryName) && (
+                  <span className="text-gray-500 truncate">
+                    {[node.data.name, node.data.temporaryName].filter(Boolean).join(' · ')}
+                  </span>
+                )}
+              </div>
+            </div>
+            <button
+              className="p-0.5 hover:bg-cyber-danger/20 rounded transition-colors"
+              onClick={onClose}
+              title="Close"
+            >
+              <span className="hero-x-mark-solid w-3.5 h-3.5 text-gray-400" />
+            </button>
+          </div>
+
+          {/* Static info */}
+          <Section title="System">
+            {staticInfo ? (
+              <>
+                <Row label="Class">
+                  {SYSTEM_CLASS_LABELS[staticInfo.system_class] ?? staticInfo.class_title ?? staticInfo.system_class}
+                </Row>
+                {staticInfo.security && <Row label="Security">{staticInfo.security}</Row>}
+                {staticInfo.region_name && <Row label="Region">{staticInfo.region_name}</Row>}
+                {staticInfo.constellation_name && <Row label="Constellation">{staticInfo.constellation_name}</Row>}
+                {!!staticInfo.statics?.length && <Row label="Statics">{staticInfo.statics.join(', ')}</Row>}
+                {staticInfo.effect_name && (
+                  <Row label="Effect">
+                    {staticInfo.effect_name}
+                    {staticInfo.effect_power ? ` (${staticInfo.effect_power})` : ''}
+                  </Row>
+                )}
+                {staticInfo.triglavian_invasion_status && staticInfo.triglavian_invasion_status !== 'Normal' && (
+                  <Row label="Triglavian">{staticInfo.triglavian_invasion_status}</Row>
+                )}
+                {staticInfo.is_shattered && <Row label="Shattered">yes</Row>}
+              </>
+            ) : (
+              <span className="text-gray-500">No static data</span>
+            )}
+          </Section>
+
+          {/* Signatures, pilots and rally point */}
+          <Section title="Activity">
+            <Row label="Signatures">
+              {node.data.signatures}
+              {node.data.unscannedSignatures > 0 && (
+                <span className="text-amber-500"> ({node.data.unscannedSignatures} unscanned)</span>
+              )}
+            </Row>
+            <Row label="Pilots">{node.data.pilots}</Row>
+            <Row label="Kills (24h)">{countRecentKills(node.data.kills, '24h', nowInSeconds())}</Row>
+            {node.data.rally && <Row label="Rally point">active</Row>}
+          </Section>
+
+          {/* Map membership */}
+          <Section title="Maps">
+            <Row label="Source map">
+              <span className="px-1 rounded border-b-2 uppercase" style={{ borderColor: sourceMap?.color }}>
+                {sourceMap?.title ?? node.data.mapId}
+              </span>
+            </Row>
+            {node.data.isMain && <Row label="Home">yes</Row>}
+            {node.data.isBorder && (
+              <Row label="Border with">
+                <div className="flex flex-wrap justify-end gap-1">
+                  {node.data.borderMaps.map(mapId => {
+                    const map = maps.find(m => m.id === mapId);
+                    return (
+                      <span
+                        key={mapId}
+                        className="px-1 rounded border-b-2 uppercase"
+                        style={{ borderColor: map?.color }}
+                      >
+                        {map?.title ?? mapId}
+                      </span>
+                    );
+                  })}
+                </div>
+              </Row>
+            )}
+          </Section>
+
+          {/* Connections */}
+          <Section title={`Connections (${connections.length})`}>
+            {connections.length === 0 && <span className="text-gray-500">None</span>}
+            {connections.map(({ edge, other }) => (
+              <div key={edge.id} className="py-1 border-b border-cyber-primary/5 last:border-0">
+                <div className="flex justify-between">
+                  <span className="text-cyber-primary">{other?.data.name ?? '?'}</span>
+                  {edge.data.wormholeType && <span className="text-gray-300">{edge.data.wormholeType}</span>}
+                </div>
+                <div className="flex gap-2 text-[9px]">
+                  <span style={{ color: MASS_STATUS_COLORS[edge.data.massStatus] }}>
+                    {MASS_STATUS_TITLES[edge.data.massStatus]}
+                  </span>
+                  <span className={edge.data.timeStatus === TIME_STATUS.eol ? 'text-purple-400' : 'text-gray-500'}>
+                    {TIME_STATUS_TITLES[edge.data.timeStatus]}
+                  </span>
+                  <span className="text-gray-500">{SHIP_SIZE_TITLES[edge.data.shipSizeType]}</span>
+                </div>
+              </div>
+            ))}
+          </Section>
+        </>
+      )}
+    </aside>
+  );
+};
+
+export default SystemPanel;
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+
+import { useHistory, usePlaybackIndex, useSeekHistory } from '@/react/state/useDashboard';
+
+// Time a snapshot stays on screen at 1x speed
+const PLAYBACK_STEP = 1000;
+const SPEEDS = [1, 2, 4, 8];
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour12: false });
+
+// Scrubs through the map_cached_data versions received since the dashboard was opened
+export const Timeline = () => {
+  const history = useHistory();
+  const playbackIndex = usePlaybackIndex();
+  const seekHistory = useSeekHistory();
+
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // Step to the next snapshot; reaching the newest one returns to live data
+  useEffect(() => {
+    if (!playing) return;
+
+    const timeout = setTimeout(() => {
+      const next = (playbackIndex ?? -1) + 1;
+      if (next >= history.length - 1) {
+        seekHistory(null);
+        setPlaying(false);
+      } else {
+        seekHistory(next);
+      }
+    }, PLAYBACK_STEP / speed);
+
+    return () => clearTimeout(timeout);
+  }, [playing, playbackIndex, history.length, speed, seekHistory]);
+
+  if (history.length < 2) return null;
+
+  const isLive = playbackIndex === null;
+  const sliderValue = playbackIndex ?? history.length - 1;
+
+  return (
+    <div
+      className="fixed bottom-2 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 px-2 py-1 rounded font-mono
+                 border border-cyber-primary/30 bg-cyber-dark-800/90 backdrop-blur-md shadow-[0_0_20px_rgba(0,255,255,0.1)]"
+    >
+      {/* Play / pause */}
+      <button
+        className="p-0.5 rounded hover:bg-cyber-primary/10 transition-colors"
+        onClick={() => setPlaying(prev => !prev)}
+        title={playing ? 'Pause' : 'Replay history'}
+      >
+        <span className={`${playing ? 'hero-pause-solid' : 'hero-play-solid'} w-3.5 h-3.5 text-cyber-primary`} />
+      </button>
+
+      {/* Speed */}
+      <div className="flex items-center rounded border border-cyber-primary/20 overflow-hidden">
+        {SPEEDS.map(value => (
+          <button
+            key={value}
+            className={`px-1 text-[9px] transition-colors ${
+              speed === value ? 'bg-cyber-primary/20 text-cyber-primary' : 'text-gray-500 hover:text-cyber-primary'
+            }`}
+            onClick={() => setSpeed(value)}
+          >
+            {value}x
+          </button>
+        ))}
+      </div>
+
+      {/* Scrubber */}
+      <input
+        type="range"
+        className="w-64 accent-cyan-400"
+        min={0}
+        max={history.length - 1}
+        value={sliderValue}
+        onChange={e => {
+          const index = Number(e.target.value);
+          setPlaying(false);
+          seekHistory(index === history.length - 1 ? null : index);
+        }}
+      />
+
+      <span className="w-14 text-[10px] text-gray-400">{formatTime(history[sliderValue].timestamp)}</span>
+
+      {/* Back to live data */}
+      <button
+        className={`px-1.5 py-0.5 rounded text-[9px] uppercase border transition-colors ${
+          isLive
+            ? 'border-green-500/50 bg-green-500/10 text-green-400'
+            : 'border-cyber-primary/20 text-gray-400 hover:text-cyber-primary hover:border-cyber-primary/50'
+        }`}
+        onClick={() => {
+          setPlaying(false);
+          seekHistory(null);
+        }}
+        title="Show live data"
+      >
+        Live
+      </button>
+    </div>
+  );
+};
+
+export default Timeline;
@@ -1,6 +1,7 @@
 import { useMemo } from 'react';
 
-import { useMaps } from '@/react/state/useDashboard';
+import { Map as MapInfo, SystemNode } from '@/react/model';
+import { useMaps, useViewPreferences } from '@/react/state/useDashboard';
 
 const createStyle = (baseColor: string) => ({
   fill: baseColor,
@@ -9,14 +10,23 @@ const createStyle = (baseColor: string) => ({
   labelPadding: 2,
   labelBackgroundFill: baseColor,
   labelBackgroundRadius: 5,
+  labelPlacement: 'top',
+  labelCloseToPath: false,
+  labelFontSize: 10,
+  labelFontFamily: 'monospace',
 });
 
-const useClusters = (nodes: any[]): any[] => {
+// Map title, system count and whether the map is receiving updates
+const getClusterLabel = (map: MapInfo, count: number) =>
+  `${map.title} · ${count} ${count === 1 ? 'system' : 'systems'}${map.started ? '' : ' · stopped'}`;
+
+const useClusters = (nodes: SystemNode[]): any[] => {
   const maps = useMaps();
+  const { hiddenMaps, collapsedMaps } = useViewPreferences();
 
   const groupedNodesByCluster = useMemo(
     () =>
-      nodes.reduce((acc, node) => {
+      nodes.reduce<Record<string, string[]>>((acc, node) => {
         const cluster = node.data.mapId;
         acc[cluster] ||= [];
         acc[cluster].push(node.id);
@@ -26,18 +36,22 @@ const useClusters = (nodes: any[]): any[] => {
   );
 
   const clusters = useMemo(() => {
-    const result = maps.map((map: any) => {
-      return {
-        key: map.id,
-        type: 'hull',
-        members: groupedNodesByCluster[map.id] || [],
-        // labelText: map.title,
-        ...createStyle(map.color),
-      };
-    });
+    const result = maps
+      // A collapsed map is shown by its summary node instead of a hull
+      .filter(map => !hiddenMaps.includes(map.id) && !collapsedMaps.includes(map.id))
+      .map(map => {
+        const members = groupedNodesByCluster[map.id] || [];
+        return {
+          key: map.id,
+          type: 'hull',
+          members,
+          labelText: getClusterLabel(map, members.length),
+          ...createStyle(map.color),
+        };
+      });
 
     return result;
-  }, [maps, groupedNodesByCluster]); // Fixed: depend on groupedNodesByCluster instead of nodes
+  }, [maps, hiddenMaps, collapsedMaps, groupedNodesByCluster]); // Fixed: depend on groupedNodesByCluster instead of nodes
 
   return clusters;
 };
@@ -0,0 +1,93 @@
+import { useMemo } from 'react';
+
+import { ConnectionEdge, SystemNode } from '@/react/model';
+import { useMaps, useViewPreferences } from '@/react/state/useDashboard';
+
+const SUMMARY_NODE_PREFIX = 'map:';
+
+export const getSummaryNodeId = (mapId: string) => `${SUMMARY_NODE_PREFIX}${mapId}`;
+
+// Map id of a collapsed map's summary node, null for regular systems
+export const getCollapsedMapId = (nodeId: string) =>
+  nodeId.startsWith(SUMMARY_NODE_PREFIX) ? nodeId.slice(SUMMARY_NODE_PREFIX.length) : null;
+
+// Replaces the systems of collapsed maps with one summary node per map, placed at their centre
+// and carrying their combined activity. Connections into a collapsed map are redirected to its summary node
+const useCollapsedMaps = (nodes: SystemNode[], edges: ConnectionEdge[]) => {
+  const maps = useMaps();
+  const { collapsedMaps } = useViewPreferences();
+
+  return useMemo(() => {
+    if (!collapsedMaps.length) return { nodes, edges };
+
+    const summaryIdByNode = new Map<string, string>();
+    const membersByMap = new Map<string, SystemNode[]>();
+    const expandedNodes: SystemNode[] = [];
+
+    for (const node of nodes) {
+      const { mapId } = node.data;
+      if (!collapsedMaps.includes(mapId)) {
+        expandedNodes.push(node);
+        continue;
+      }
+      summaryIdByNode.set(node.id, getSummaryNodeId(mapId));
+      membersByMap.set(mapId, [...(membersByMap.get(mapId) || []), node]);
+    }
+
+    const summaryNodes = maps
+      .filter(map => membersByMap.has(map.id))
+      .map((map): SystemNode => {
+        const members = membersByMap.get(map.id)!;
+        const sum = (pick: (node: SystemNode) => number) => members.reduce((acc, n) => acc + pick(n), 0);
+
+        return {
+          id: getSummaryNodeId(map.id),
+          style: {
+            x: sum(n => n.style.x) / members.length,
+            y: sum(n => n.style.y) / members.length,
+          },
+          data: {
+            name: `${map.title} (${members.length})`,
+            temporaryName: null,
+            customName: null,
+            systemEveId: 0,
+            mapId: map.id,
+            nodeType: 'hexagon',
+            bgFill: map.color,
+            systemClass: undefined,
+            security: undefined,
+            isMain: false,
+            isBorder: false,
+            borderMaps: [],
+            isShattered: false,
+            signatures: sum(n => n.data.signatures),
+            unscannedSignatures: sum(n => n.data.unscannedSignatures),
+            pilots: sum(n => n.data.pilots),
+            rally: members.some(n => n.data.rally),
+            kills: members.flatMap(n => n.data.kills),
+            collapsed: true,
+            memberCount: members.length,
+          },
+        };
+      });
+
+    // Connections inside a collapsed map disappear, parallel ones into its summary node are merged
+    const edgeIds = new Set<string>();
+    const collapsedEdges = edges.reduce<ConnectionEdge[]>((acc, edge) => {
+      const source = summaryIdByNode.get(edge.source) ?? edge.source;
+      const target = summaryIdByNode.get(edge.target) ?? edge.target;
+      if (source === target) return acc;
+
+      const id = source === edge.source && target === edge.target ? edge.id : `${source}-${target}`;
+      if (edgeIds.has(id)) return acc;
+
+      edgeIds.add(id);
+      acc.push({ ...edge, id, source, target });
+      return acc;
+    }, []);
+
+    return { nodes: [...expandedNodes, ...summaryNodes], edges: collapsedEdges };
+  }, [nodes, edges, maps, collapsedMaps]);
+};
+
+export default useCollapsedMaps;
@@ -0,0 +1,26 @@
+import { useMemo } from 'react';
+
+import { ConnectionEdge, SystemNode } from '@/react/model';
+import { useMaps, useViewPreferences } from '@/react/state/useDashboard';
+import { computeHomeDistances, findHomeNodeIds } from '@/react/utils/graph';
+
+// Jump counts from the nearest home of every map, the home each system belongs to and the systems left by the "within N jumps" filter
+const useHomeDepths = (nodes: SystemNode[], edges: ConnectionEdge[]) => {
+  const maps = useMaps();
+  const { maxDepth } = useViewPreferences();
+
+  const homeDistances = useMemo(
+    () => computeHomeDistances(nodes, edges, findHomeNodeIds(nodes, maps)),
+    [nodes, edges, maps],
+  );
+
+  const visibleNodes = useMemo(() => {
+    // Without a home there is nothing to measure from, so the filter is not applied
+    if (maxDepth === null || homeDistances.homeIds.length === 0) return nodes;
+    return nodes.filter(n => (homeDistances.depths.get(n.id) ?? Infinity) <= maxDepth);
+  }, [nodes, homeDistances, maxDepth]);
+
+  return { homeDistances, visibleNodes };
+};
+
+export default useHomeDepths;
@@ -0,0 +1,32 @@
+import { useMemo } from 'react';
+
+import { ConnectionEdge, SystemNode } from '@/react/model';
+import { useViewPreferences } from '@/react/state/useDashboard';
+import { computeLayout } from '@/react/utils/layouts';
+
+// Moves systems to the positions of the selected layout. The layout only re-runs when systems,
+// connections or source positions change, not on every activity update
+const useLayout = (nodes: SystemNode[], edges: ConnectionEdge[], rootId: string | null) => {
+  const { layout, pinnedNodes } = useViewPreferences();
+
+  const topologyKey = useMemo(
+    () => JSON.stringify([nodes.map(n => [n.id, n.style.x, n.style.y]), edges.map(e => [e.id, e.source, e.target])]),
+    [nodes, edges],
+  );
+
+  const positions = useMemo(
+    () => computeLayout(layout, nodes, edges, { rootId, pinned: pinnedNodes }),
+    [layout, topologyKey, rootId, pinnedNodes],
+  );
+
+  return useMemo(
+    () =>
+      nodes.map(node => {
+        const position = positions.get(node.id);
+        return position ? { ...node, style: { ...node.style, x: position[0], y: position[1] } } : node;
+      }),
+    [nodes, positions],
+  );
+};
+
+export default useLayout;
@@ -0,0 +1,76 @@
+import { useCallback, useMemo, useState } from 'react';
+
+import { ConnectionEdge, SystemNode } from '@/react/model';
+import { DEFAULT_ROUTE_OPTIONS, findRoute, RouteOptions } from '@/react/utils/graph';
+
+export type RouteState = ReturnType<typeof useRoute>;
+
+const useRoute = (nodes: SystemNode[], edges: ConnectionEdge[]) => {
+  const [active, setActive] = useState(false);
+  const [originId, setOriginId] = useState<string | null>(null);
+  const [destinationId, setDestinationId] = useState<string | null>(null);
+  const [options, setOptions] = useState<RouteOptions>(DEFAULT_ROUTE_OPTIONS);
+
+  const route = useMemo(() => {
+    if (!originId || !destinationId) return null;
+    return findRoute(nodes, edges, originId, destinationId, options);
+  }, [nodes, edges, originId, destinationId, options]);
+
+  // In route mode the first picked system becomes the origin, the second the destination,
+  // and a third pick starts a new route from that system
+  const pickSystem = useCallback(
+    (nodeId: string) => {
+      if (!originId || destinationId) {
+        setOriginId(nodeId);
+        setDestinationId(null);
+        return;
+      }
+      if (nodeId !== originId) {
+        setDestinationId(nodeId);
+      }
+    },
+    [originId, destinationId],
+  );
+
+  // Jump straight to a planned route, e.g. from the node context menu
+  const routeBetween = useCallback((fromId: string, toId: string) => {
+    setActive(true);
+    setOriginId(fromId);
+    setDestinationId(toId);
+  }, []);
+
+  const swap = useCallback(() => {
+    setOriginId(destinationId);
+    setDestinationId(originId);
+  }, [originId, destinationId]);
+
+  const clear = useCallback(() => {
+    setOriginId(null);
+    setDestinationId(null);
+  }, []);
+
+  const toggle = useCallback(() => {
+    setActive(prev => !prev);
+    clear();
+  }, [clear]);
+
+  const updateOptions = useCallback((update: Partial<RouteOptions>) => {
+    setOptions(prev => ({ ...prev, ...update }));
+  }, []);
+
+  return {
+    active,
+    originId,
+    destinationId,
+    options,
+    route,
+    toggle,
+    pickSystem,
+    routeBetween,
+    swap,
+    clear,
+    updateOptions,
+  };
+};
+
+export default useRoute;
@@ -0,0 +1,25 @@
+import { useMemo } from 'react';
+
+import { SystemNode } from '@/react/model';
+import { useViewPreferences } from '@/react/state/useDashboard';
+import { matchesSystemFilter } from '@/react/utils/systemFilter';
+
+// Applies the filter bar: `visibleNodes` go on the canvas, `matchingNodes` make up the hulls
+// and `dimmedIds` are the filtered-out systems still drawn in "dim" mode
+const useSystemFilter = (nodes: SystemNode[]) => {
+  const { systemFilter } = useViewPreferences();
+
+  return useMemo(() => {
+    const matchingNodes = nodes.filter(n => matchesSystemFilter(n.data, systemFilter));
+    const matchingIds = new Set(matchingNodes.map(n => n.id));
+
+    if (systemFilter.mode === 'hide') {
+      return { visibleNodes: matchingNodes, matchingNodes, dimmedIds: new Set<string>() };
+    }
+
+    const dimmedIds = new Set(nodes.filter(n => !matchingIds.has(n.id)).map(n => n.id));
+    return { visibleNodes: nodes, matchingNodes, dimmedIds };
+  }, [nodes, systemFilter]);
+};
+
+export default useSystemFilter;
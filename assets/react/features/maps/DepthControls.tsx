@@ -0,0 +1,56 @@
+import React from 'react';
+
+import { MAX_DEPTH_OPTIONS } from '@/react/constants/depth';
+import { useUpdateViewPreferences, useViewPreferences } from '@/react/state/useDashboard';
+
+// Depth ring and home tint toggles and "within N jumps of home" filter, shared by the dashboard and shared headers
+export const DepthControls = () => {
+  const viewPreferences = useViewPreferences();
+  const updateViewPreferences = useUpdateViewPreferences();
+
+  return (
+    <div className="flex items-center rounded border border-cyber-primary/20 bg-cyber-dark-800/50 overflow-hidden">
+      <button
+        className={`p-1.5 transition-all duration-200 group ${
+          viewPreferences.depthOverlay ? 'bg-cyber-primary/10' : 'hover:bg-cyber-primary/10'
+        }`}
+        onClick={() => updateViewPreferences({ depthOverlay: !viewPreferences.depthOverlay })}
+        title={viewPreferences.depthOverlay ? 'Hide jumps from home' : 'Show jumps from home'}
+      >
+        <span
+          className={`hero-signal-solid block w-3.5 h-3.5 ${
+            viewPreferences.depthOverlay ? 'text-cyber-primary' : 'text-cyber-primary/70 group-hover:text-cyber-primary'
+          }`}
+        />
+      </button>
+      <button
+        className={`p-1.5 border-l border-cyber-primary/20 transition-all duration-200 group ${
+          viewPreferences.homeTint ? 'bg-cyber-primary/10' : 'hover:bg-cyber-primary/10'
+        }`}
+        onClick={() => updateViewPreferences({ homeTint: !viewPreferences.homeTint })}
+        title={viewPreferences.homeTint ? 'Hide home of each system' : 'Tint systems by nearest home'}
+      >
+        <span
+          className={`hero-home-solid block w-3.5 h-3.5 ${
+            viewPreferences.homeTint ? 'text-cyber-primary' : 'text-cyber-primary/70 group-hover:text-cyber-primary'
+          }`}
+        />
+      </button>
+      <select
+        className="h-full py-0 pl-1 pr-5 border-0 border-l border-cyber-primary/20 bg-transparent text-[9px] font-mono
+                   text-cyber-primary/80 focus:ring-0"
+        value={viewPreferences.maxDepth ?? ''}
+        onChange={e => updateViewPreferences({ maxDepth: e.target.value === '' ? null : Number(e.target.value) })}
+        title="Only show systems within N jumps of home"
+      >
+        {MAX_DEPTH_OPTIONS.map(option => (
+          <option key={option ?? 'all'} value={option ?? ''} className="bg-cyber-dark-800">
+            {option === null ? 'All jumps' : `≤ ${option}j`}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default DepthControls;
@@ -0,0 +1,33 @@
+import React from 'react';
+
+import { EDGE_STYLES } from '@/react/constants/edgeStyles';
+import { useEdgeStyle, useSetEdgeStyle } from '@/react/state/useDashboard';
+
+// Plain or animated connections, shared by the dashboard and shared headers
+export const EdgeStyleControls = () => {
+  const edgeStyle = useEdgeStyle();
+  const setEdgeStyle = useSetEdgeStyle();
+
+  return (
+    <div className="flex items-center rounded border border-cyber-primary/20 bg-cyber-dark-800/50 overflow-hidden">
+      {EDGE_STYLES.map(({ style, label, icon }) => (
+        <button
+          key={style}
+          className={`p-1.5 transition-all duration-200 group ${
+            edgeStyle === style ? 'bg-cyber-primary/20' : 'hover:bg-cyber-primary/10'
+          }`}
+          onClick={() => setEdgeStyle(style)}
+          title={label}
+        >
+          <span
+            className={`${icon} block w-3.5 h-3.5 ${
+              edgeStyle === style ? 'text-cyber-primary' : 'text-cyber-primary/60 group-hover:text-cyber-primary'
+            }`}
+          />
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default EdgeStyleControls;
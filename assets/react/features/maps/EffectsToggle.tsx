@@ -0,0 +1,43 @@
+import React from 'react';
+
+import { EFFECTS_MODES, EffectsMode, REDUCED_EFFECTS_REASONS } from '@/react/constants/effects';
+import { Effects } from '@/react/hooks/useEffectsMode';
+
+type EffectsToggleProps = {
+  effects: Effects;
+  onChange: (mode: EffectsMode) => void;
+};
+
+// Automatic, full or reduced map effects. Takes its state as props since the shared map has its own provider
+export const EffectsToggle = ({ effects, onChange }: EffectsToggleProps) => (
+  <div className="flex items-center rounded border border-cyber-primary/20 bg-cyber-dark-800/50 overflow-hidden">
+    {EFFECTS_MODES.map(({ mode, label, icon }) => {
+      const active = effects.mode === mode;
+      const title =
+        mode === 'auto' && effects.reason ? `${label} (reduced: ${REDUCED_EFFECTS_REASONS[effects.reason]})` : label;
+
+      return (
+        <button
+          key={mode}
+          className={`relative p-1.5 transition-all duration-200 group ${
+            active ? 'bg-cyber-primary/20' : 'hover:bg-cyber-primary/10'
+          }`}
+          onClick={() => onChange(mode)}
+          title={title}
+        >
+          <span
+            className={`${icon} block w-3.5 h-3.5 ${
+              active ? 'text-cyber-primary' : 'text-cyber-primary/60 group-hover:text-cyber-primary'
+            }`}
+          />
+          {/* Automatic mode turned the effects off */}
+          {mode === 'auto' && effects.reason && (
+            <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 rounded-full bg-orange-400" />
+          )}
+        </button>
+      );
+    })}
+  </div>
+);
+
+export default EffectsToggle;
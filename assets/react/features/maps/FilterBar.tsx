@@ -0,0 +1,89 @@
+import React from 'react';
+
+import { DEFAULT_SYSTEM_FILTER, SPACE_FILTERS, SpaceFilter, SystemFilter } from '@/react/constants/filters';
+import { useMaps, useToggleMapVisible, useUpdateViewPreferences, useViewPreferences } from '@/react/state/useDashboard';
+import { isSystemFilterActive } from '@/react/utils/systemFilter';
+
+const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+
+const chipClassName = (enabled: boolean) =>
+  `px-1.5 py-0.5 rounded border text-[9px] font-mono uppercase transition-colors ${
+    enabled
+      ? 'border-cyber-primary/50 bg-cyber-primary/10 text-cyber-primary'
+      : 'border-cyber-primary/10 text-gray-600 hover:text-gray-400'
+  }`;
+
+// Space type, border and per-map toggles, opened from the header filter button
+export const FilterBar = () => {
+  const maps = useMaps();
+  const { systemFilter, hiddenMaps } = useViewPreferences();
+  const updateViewPreferences = useUpdateViewPreferences();
+  const toggleMapVisible = useToggleMapVisible();
+
+  const updateFilter = (update: Partial<SystemFilter>) =>
+    updateViewPreferences({ systemFilter: { ...systemFilter, ...update } });
+
+  const toggleSpace = (space: SpaceFilter) => updateFilter({ hiddenSpaces: toggle(systemFilter.hiddenSpaces, space) });
+
+  return (
+    <div
+      className="fixed top-10 right-2 z-10 flex flex-col gap-1 p-1.5 rounded border border-cyber-primary/30
+                 bg-cyber-dark-800/95 backdrop-blur-md shadow-[0_0_20px_rgba(0,255,255,0.1)]"
+    >
+      {/* Space types */}
+      <div className="flex items-center gap-0.5">
+        {SPACE_FILTERS.map(({ key, label }) => (
+          <button
+            key={key}
+            className={chipClassName(!systemFilter.hiddenSpaces.includes(key))}
+            onClick={() => toggleSpace(key)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {/* Maps */}
+      <div className="flex items-center gap-0.5 flex-wrap">
+        {maps.map(map => (
+          <button
+            key={map.id}
+            className={`${chipClassName(!hiddenMaps.includes(map.id))} flex items-center gap-1`}
+            onClick={() => toggleMapVisible(map.id)}
+          >
+            <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: map.color }} />
+            {map.title}
+          </button>
+        ))}
+      </div>
+
+      {/* Border only, dim / hide and reset */}
+      <div className="flex items-center gap-0.5 pt-1 border-t border-cyber-primary/10">
+        <button
+          className={chipClassName(systemFilter.borderOnly)}
+          onClick={() => updateFilter({ borderOnly: !systemFilter.borderOnly })}
+          title="Only show systems shared with another map"
+        >
+          Border only
+        </button>
+        <button
+          className={chipClassName(systemFilter.mode === 'hide')}
+          onClick={() => updateFilter({ mode: systemFilter.mode === 'hide' ? 'dim' : 'hide' })}
+          title={systemFilter.mode === 'hide' ? 'Dim filtered systems instead' : 'Hide filtered systems instead'}
+        >
+          {systemFilter.mode === 'hide' ? 'Hide' : 'Dim'}
+        </button>
+        {isSystemFilterActive(systemFilter) && (
+          <button
+            className="ml-auto px-1.5 py-0.5 text-[9px] font-mono uppercase text-gray-500 hover:text-cyber-primary transition-colors"
+            onClick={() => updateFilter({ ...DEFAULT_SYSTEM_FILTER, mode: systemFilter.mode })}
+          >
+            Reset
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FilterBar;
@@ -0,0 +1,48 @@
+import React from 'react';
+
+import { LAYOUTS } from '@/react/constants/layouts';
+import { useUpdateViewPreferences, useViewPreferences } from '@/react/state/useDashboard';
+
+// Layout switcher, plus a reset for systems pinned by dragging them
+export const LayoutControls = () => {
+  const viewPreferences = useViewPreferences();
+  const updateViewPreferences = useUpdateViewPreferences();
+
+  const pinnedCount = Object.keys(viewPreferences.pinnedNodes).length;
+
+  return (
+    <div className="flex items-center rounded border border-cyber-primary/20 bg-cyber-dark-800/50 overflow-hidden">
+      {LAYOUTS.map(({ type, label, icon }) => (
+        <button
+          key={type}
+          className={`p-1.5 transition-all duration-200 group ${
+            viewPreferences.layout === type ? 'bg-cyber-primary/20' : 'hover:bg-cyber-primary/10'
+          }`}
+          onClick={() => updateViewPreferences({ layout: type })}
+          title={label}
+        >
+          <span
+            className={`${icon} block w-3.5 h-3.5 ${
+              viewPreferences.layout === type
+                ? 'text-cyber-primary'
+                : 'text-cyber-primary/60 group-hover:text-cyber-primary'
+            }`}
+          />
+        </button>
+      ))}
+      {pinnedCount > 0 && (
+        <button
+          className="flex items-center gap-0.5 px-1.5 py-1 border-l border-cyber-primary/20 text-[9px] font-mono
+                     text-cyber-primary/60 hover:bg-cyber-primary/10 hover:text-cyber-primary transition-all duration-200"
+          onClick={() => updateViewPreferences({ pinnedNodes: {} })}
+          title="Release systems pinned by dragging"
+        >
+          <span className="hero-map-pin-solid w-3 h-3" />
+          {pinnedCount}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default LayoutControls;
@@ -1,12 +1,24 @@
 import React, { useCallback } from 'react';
 
 import { useConfirmDialog } from '@/react/hooks/useConfirmDialog';
-import { useRemoveMap, useStartMap, useStopMap } from '@/react/state/useDashboard';
+import {
+  useRemoveMap,
+  useSoloMap,
+  useStartMap,
+  useStopMap,
+  useToggleMapVisible,
+  useViewPreferences,
+} from '@/react/state/useDashboard';
 
 export const MapItem = ({ map }: { map: any }) => {
   const removeMap = useRemoveMap();
   const stopMap = useStopMap();
   const startMap = useStartMap();
+  const toggleMapVisible = useToggleMapVisible();
+  const soloMap = useSoloMap();
+  const { hiddenMaps } = useViewPreferences();
+
+  const hidden = hiddenMaps.includes(map.id);
 
   const handleRemoveMap = useCallback(() => {
     removeMap(map.id);
@@ -20,6 +32,18 @@ export const MapItem = ({ map }: { map: any }) => {
     stopMap(map.id);
   }, [map.id]);
 
+  // Click shows / hides the map, shift-click shows it alone
+  const handleClick = useCallback(
+    (event: React.MouseEvent) => {
+      if (event.shiftKey) {
+        soloMap(map.id);
+      } else {
+        toggleMapVisible(map.id);
+      }
+    },
+    [map.id, soloMap, toggleMapVisible],
+  );
+
   const confirmDelete = useConfirmDialog({
     text: 'Confirm removing map',
     onConfirm: handleRemoveMap,
@@ -28,8 +52,12 @@ export const MapItem = ({ map }: { map: any }) => {
   return (
     <div
       key={map.id}
-      className="relative bg-cyber-dark-800/80 border border-cyber-primary/20 rounded
-                 hover:border-cyber-primary/50 transition-all duration-200 group overflow-hidden"
+      className={`relative bg-cyber-dark-800/80 border border-cyber-primary/20 rounded cursor-pointer select-none
+                 hover:border-cyber-primary/50 transition-all duration-200 group overflow-hidden ${
+                   hidden ? 'opacity-40' : ''
+                 }`}
+      onClick={handleClick}
+      title={hidden ? 'Show map (shift-click to show only this map)' : 'Hide map (shift-click to show only this map)'}
     >
       {/* Card content */}
       <div className="relative z-10 flex items-center px-1 gap-1.5">
@@ -41,12 +69,19 @@ export const MapItem = ({ map }: { map: any }) => {
         )}
 
         {/* Map title */}
-        <span className="text-[9px] font-mono font-medium uppercase text-cyber-primary/80 group-hover:text-cyber-primary">
+        <span
+          className={`text-[9px] font-mono font-medium uppercase text-cyber-primary/80 group-hover:text-cyber-primary ${
+            hidden ? 'line-through' : ''
+          }`}
+        >
           {map.title}
         </span>
 
         {/* Action buttons - inline, appear on hover */}
-        <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity duration-200 ml-auto">
+        <div
+          className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity duration-200 ml-auto"
+          onClick={e => e.stopPropagation()}
+        >
           {map.started ? (
             <button
               className="p-0.5 hover:bg-cyber-warning/20 rounded transition-colors"
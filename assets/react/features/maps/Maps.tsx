@@ -1,16 +1,43 @@
 import React, { useCallback, useState } from 'react';
 
-import { useMaps, usePushEvent, useShowSetup } from '@/react/state/useDashboard';
+import { KILL_WINDOWS } from '@/react/constants/kills';
 import { ShareLinksModal } from '@/react/features/share/ShareLinksModal';
+import {
+  useConnectionLabelsVisible,
+  useEdgeStyle,
+  useEffects,
+  useMaps,
+  usePushEvent,
+  useSetEffectsMode,
+  useShowConnectionLabels,
+  useShowSetup,
+  useUpdateViewPreferences,
+  useViewPreferences,
+} from '@/react/state/useDashboard';
+import { isSystemFilterActive } from '@/react/utils/systemFilter';
 
+import { DepthControls } from './DepthControls';
+import { EdgeStyleControls } from './EdgeStyleControls';
+import { EffectsToggle } from './EffectsToggle';
+import { FilterBar } from './FilterBar';
+import { LayoutControls } from './LayoutControls';
 import { MapItem } from './MapItem';
+import { SystemSearch } from './SystemSearch';
 
-export const Maps = () => {
+export const Maps = ({ onFocusSystem }: { onFocusSystem: (nodeId: string) => void }) => {
   const maps = useMaps();
   const showSetup = useShowSetup();
   const pushEvent = usePushEvent();
+  const connectionLabelsVisible = useConnectionLabelsVisible();
+  const showConnectionLabels = useShowConnectionLabels();
+  const viewPreferences = useViewPreferences();
+  const updateViewPreferences = useUpdateViewPreferences();
+  const effects = useEffects();
+  const edgeStyle = useEdgeStyle();
+  const setEffectsMode = useSetEffectsMode();
 
   const [shareModalOpen, setShareModalOpen] = useState(false);
+  const [filterBarOpen, setFilterBarOpen] = useState(false);
 
   const handleOpenShare = useCallback(() => {
     setShareModalOpen(true);
@@ -50,6 +77,99 @@ export const Maps = () => {
 
           {/* Right side buttons */}
           <div className="flex items-center gap-1">
+            {/* System finder */}
+            <SystemSearch onSelect={onFocusSystem} />
+
+            {/* System filters */}
+            <button
+              className={`p-1.5 rounded border transition-all duration-200 group ${
+                filterBarOpen || isSystemFilterActive(viewPreferences.systemFilter)
+                  ? 'border-cyber-primary/50 bg-cyber-primary/10'
+                  : 'border-cyber-primary/20 bg-cyber-dark-800/50 hover:border-cyber-primary/50 hover:bg-cyber-primary/10'
+              }`}
+              onClick={() => setFilterBarOpen(open => !open)}
+              title="Filter systems"
+            >
+              <span className="hero-funnel-solid w-3.5 h-3.5 text-cyber-primary/70 group-hover:text-cyber-primary" />
+            </button>
+
+            {/* Layout */}
+            <LayoutControls />
+
+            {/* Jumps from home */}
+            <DepthControls />
+
+            {/* Animated effects */}
+            <EffectsToggle effects={effects} onChange={setEffectsMode} />
+
+            {/* Kill heatmap time window */}
+            <div
+              className="flex items-center rounded border border-cyber-primary/20 bg-cyber-dark-800/50 overflow-hidden"
+              title="Kill heatmap window"
+            >
+              <span className="hero-fire-solid w-3.5 h-3.5 mx-1 text-red-400/70" />
+              {KILL_WINDOWS.map(killWindow => (
+                <button
+                  key={killWindow}
+                  className={`px-1.5 py-1 text-[9px] font-mono uppercase transition-all duration-200 ${
+                    viewPreferences.killWindow === killWindow
+                      ? 'bg-red-500/20 text-red-300'
+                      : 'text-cyber-primary/60 hover:bg-cyber-primary/10 hover:text-cyber-primary'
+                  }`}
+                  onClick={() => updateViewPreferences({ killWindow })}
+                >
+                  {killWindow}
+                </button>
+              ))}
+            </div>
+
+            {/* Connection style */}
+            <EdgeStyleControls />
+
+            {/* Straight / curved connections; animated connections are always straight */}
+            <button
+              className="p-1.5 rounded border border-cyber-primary/20 bg-cyber-dark-800/50
+                         hover:border-cyber-primary/50 hover:bg-cyber-primary/10 transition-all duration-200 group
+                         disabled:opacity-40 disabled:pointer-events-none"
+              onClick={() =>
+                updateViewPreferences({ edgeType: viewPreferences.edgeType === 'line' ? 'quadratic' : 'line' })
+              }
+              disabled={edgeStyle !== 'line'}
+              title={viewPreferences.edgeType === 'line' ? 'Curved connections' : 'Straight connections'}
+            >
+              <span
+                className={`${
+                  viewPreferences.edgeType === 'line' ? 'hero-minus-solid' : 'hero-arrow-trending-up-solid'
+                } w-3.5 h-3.5 text-cyber-primary/70 group-hover:text-cyber-primary`}
+              />
+            </button>
+
+            {/* Minimap toggle */}
+            <button
+              className={`p-1.5 rounded border transition-all duration-200 group ${
+                viewPreferences.minimapVisible
+                  ? 'border-cyber-primary/50 bg-cyber-primary/10'
+                  : 'border-cyber-primary/20 bg-cyber-dark-800/50 hover:border-cyber-primary/50 hover:bg-cyber-primary/10'
+              }`}
+              onClick={() => updateViewPreferences({ minimapVisible: !viewPreferences.minimapVisible })}
+              title={viewPreferences.minimapVisible ? 'Hide minimap' : 'Show minimap'}
+            >
+              <span className="hero-rectangle-group-solid w-3.5 h-3.5 text-cyber-primary/70 group-hover:text-cyber-primary" />
+            </button>
+
+            {/* Wormhole type labels toggle */}
+            <button
+              className={`p-1.5 rounded border transition-all duration-200 group ${
+                connectionLabelsVisible
+                  ? 'border-cyber-primary/50 bg-cyber-primary/10'
+                  : 'border-cyber-primary/20 bg-cyber-dark-800/50 hover:border-cyber-primary/50 hover:bg-cyber-primary/10'
+              }`}
+              onClick={() => showConnectionLabels(!connectionLabelsVisible)}
+              title={connectionLabelsVisible ? 'Hide wormhole types' : 'Show wormhole types'}
+            >
+              <span className="hero-tag-solid w-3.5 h-3.5 text-cyber-primary/70 group-hover:text-cyber-primary" />
+            </button>
+
             {/* Share button */}
             <button
               className="p-1.5 rounded border border-orange-500/20 bg-cyber-dark-800/50
@@ -88,6 +208,8 @@ export const Maps = () => {
         <div className="absolute bottom-0 left-0 right-0 h-px bg-gradient-to-r from-transparent via-cyber-primary/30 to-transparent" />
       </header>
 
+      {filterBarOpen && <FilterBar />}
+
       {/* Share Links Modal */}
       <ShareLinksModal isOpen={shareModalOpen} onClose={handleCloseShare} pushEvent={pushEvent} />
     </>
@@ -0,0 +1,141 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+
+import { SYSTEM_CLASS_LABELS } from '@/react/constants/classes';
+import { SystemNode } from '@/react/model';
+import { useMaps, useNodes } from '@/react/state/useDashboard';
+import { bestFuzzyScore } from '@/react/utils/fuzzyMatch';
+
+const MAX_RESULTS = 10;
+
+const getClassLabel = (node: SystemNode) =>
+  node.data.systemClass !== undefined ? SYSTEM_CLASS_LABELS[node.data.systemClass] : undefined;
+
+export const SystemSearch = ({ onSelect }: { onSelect: (nodeId: string) => void }) => {
+  const nodes = useNodes();
+  const maps = useMaps();
+
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const results = useMemo(() => {
+    if (!query.trim()) return [];
+
+    return nodes
+      .map(node => ({
+        node,
+        score: bestFuzzyScore(query, [
+          node.data.name,
+          node.data.temporaryName,
+          node.data.customName,
+          getClassLabel(node),
+          node.data.security,
+        ]),
+      }))
+      .filter((result): result is { node: SystemNode; score: number } => result.score !== null)
+      .sort((a, b) => b.score - a.score || a.node.data.name.localeCompare(b.node.data.name))
+      .slice(0, MAX_RESULTS)
+      .map(result => result.node);
+  }, [nodes, query]);
+
+  const handleSelect = useCallback(
+    (node: SystemNode) => {
+      onSelect(node.id);
+      setOpen(false);
+      inputRef.current?.blur();
+    },
+    [onSelect],
+  );
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setActiveIndex(index => Math.min(index + 1, results.length - 1));
+      } else if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setActiveIndex(index => Math.max(index - 1, 0));
+      } else if (e.key === 'Enter' && results[activeIndex]) {
+        handleSelect(results[activeIndex]);
+      } else if (e.key === 'Escape') {
+        setQuery('');
+        setOpen(false);
+      }
+    },
+    [results, activeIndex, handleSelect],
+  );
+
+  return (
+    <div className="relative">
+      <div className="flex items-center gap-1 px-1.5 py-0.5 rounded border border-cyber-primary/20 bg-cyber-dark-800/50 focus-within:border-cyber-primary/50">
+        <span className="hero-magnifying-glass-solid w-3 h-3 text-cyber-primary/70" />
+        <input
+          ref={inputRef}
+          className="w-36 p-0 bg-transparent border-0 text-[10px] font-mono text-cyber-primary placeholder-gray-600 focus:ring-0"
+          placeholder="Find system…"
+          value={query}
+          onChange={e => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          // Delay closing so a click on a result still registers
+          onBlur={() => setTimeout(() => setOpen(false), 150)}
+          onKeyDown={handleKeyDown}
+        />
+      </div>
+
+      {open && query.trim() && (
+        <div className="absolute right-0 mt-1 w-64 rounded border border-cyber-primary/30 bg-cyber-dark-800/95 backdrop-blur-md shadow-[0_0_20px_rgba(0,255,255,0.1)] overflow-hidden">
+          {results.length === 0 ? (
+            <div className="px-2 py-1.5 text-[10px] font-mono text-gray-500">No systems found</div>
+          ) : (
+            results.map((node, index) => {
+              const map = maps.find(m => m.id === node.data.mapId);
+              const classLabel = getClassLabel(node);
+
+              return (
+                <button
+                  key={node.id}
+                  className={`w-full flex items-center justify-between gap-2 px-2 py-1 text-left transition-colors ${
+                    index === activeIndex ? 'bg-cyber-primary/10' : 'hover:bg-cyber-primary/5'
+                  }`}
+                  onMouseDown={e => e.preventDefault()}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  onClick={() => handleSelect(node)}
+                >
+                  <div className="flex flex-col min-w-0">
+                    <span className="text-[11px] font-mono text-cyber-primary truncate">
+                      {node.data.customName || node.data.temporaryName || node.data.name}
+                    </span>
+                    {(node.data.customName || node.data.temporaryName) && (
+                      <span className="text-[9px] font-mono text-gray-500 truncate">{node.data.name}</span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {classLabel && <span className="text-[9px] font-mono text-gray-400">{classLabel}</span>}
+                    {node.data.isBorder && (
+                      <span className="px-1 rounded border border-orange-500/50 text-[8px] font-mono uppercase text-orange-400">
+                        Border
+                      </span>
+                    )}
+                    <span
+                      className="px-1 rounded border-b-2 bg-cyber-dark-900/60 text-[9px] font-mono uppercase text-cyber-primary/80"
+                      style={{ borderColor: map?.color }}
+                    >
+                      {map?.title ?? node.data.mapId}
+                    </span>
+                  </div>
+                </button>
+              );
+            })
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SystemSearch;
@@ -1,20 +1,9 @@
 import React, { useCallback, useEffect, useState } from 'react';
 
+import { EDGE_STYLES, EdgeStyle } from '@/react/constants/edgeStyles';
 import { ServerEvent } from '@/react/constants/serverEvent';
 import { usePushEventAsync } from '@/react/hooks/usePushEventAsync';
-
-interface ShareLink {
-  id: string;
-  token: string;
-  expires_at: string;
-  label: string | null;
-  url: string;
-  is_expired: boolean;
-  is_snapshot: boolean;
-  snapshot_at: string | null;
-  has_password: boolean;
-  description: string | null;
-}
+import { decodeShareLink, decodeShareLinks, ShareLink } from '@/react/model';
 
 interface ShareLinksModalProps {
   isOpen: boolean;
@@ -28,6 +17,7 @@ export const ShareLinksModal: React.FC<ShareLinksModalProps> = ({ isOpen, onClos
   const [isSnapshot, setIsSnapshot] = useState(false);
   const [password, setPassword] = useState('');
   const [description, setDescription] = useState('');
+  const [edgeStyle, setEdgeStyle] = useState<EdgeStyle>('moving-dots');
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
@@ -37,8 +27,9 @@ export const ShareLinksModal: React.FC<ShareLinksModalProps> = ({ isOpen, onClos
     setIsLoading(true);
     try {
       const response = await pushEventAsync(ServerEvent.GET_SHARE_LINKS, {});
-      if (response?.links) {
-        setLinks(response.links);
+      const decoded = decodeShareLinks(response?.links);
+      if (decoded.ok) {
+        setLinks(decoded.value);
       }
     } finally {
       setIsLoading(false);
@@ -59,9 +50,11 @@ export const ShareLinksModal: React.FC<ShareLinksModalProps> = ({ isOpen, onClos
         isSnapshot: isSnapshot,
         password: password || null,
         description: description || null,
+        edgeStyle,
       });
-      if (response?.success && response?.link) {
-        setLinks(prev => [response.link, ...prev]);
+      const decoded = decodeShareLink(response?.link);
+      if (response?.success && decoded.ok) {
+        setLinks(prev => [decoded.value, ...prev]);
         // Reset fields after successful creation
         setPassword('');
         setDescription('');
@@ -192,6 +185,22 @@ export const ShareLinksModal: React.FC<ShareLinksModalProps> = ({ isOpen, onClos
               className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm text-white font-mono resize-none focus:border-orange-500 focus:outline-none placeholder:text-gray-500"
             />
 
+            {/* Connection style viewers start with */}
+            <label className="flex items-center gap-2">
+              <span className="text-sm text-gray-300 font-mono">Connections</span>
+              <select
+                value={edgeStyle}
+                onChange={e => setEdgeStyle(e.target.value as EdgeStyle)}
+                className="flex-1 bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm text-white focus:border-orange-500 focus:outline-none"
+              >
+                {EDGE_STYLES.map(({ style, label }) => (
+                  <option key={style} value={style}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
             {/* Password input */}
             <input
               type="password"
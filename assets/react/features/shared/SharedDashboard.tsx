@@ -1,474 +1,39 @@
-import React, { useEffect, useMemo, useRef } from 'react';
-import { Circle as GCircle, Line as GLine, Polygon, Text } from '@antv/g';
-import { Circle, ExtensionCategory, Graph, Line, register } from '@antv/g6';
-
-import { DashboardProvider, useEdges, useMaps, useNodes } from '@/react/state/useDashboard';
-import { isWormholeSpace } from '@/react/utils/isWormholeSpace';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { EdgeOptions, Graph, NodeOptions } from '@antv/g6';
+
+import { getDepthColor, getHomeColor } from '@/react/constants/depth';
+import { EdgeStyle, isEdgeStyle } from '@/react/constants/edgeStyles';
+import { ANT_LINE_DASH, registerAnimatedEdges } from '@/react/map/shape/animatedEdges';
+import { registerBreathingCircle } from '@/react/map/shape/breathingCircle';
+import { decodeLicenseState, decodeMapCachedData, decodeMaps, firstError } from '@/react/model';
+import {
+  DashboardProvider,
+  useConnectionLabelsVisible,
+  useEdges,
+  useEdgeStyle,
+  useEffects,
+  useMaps,
+  useNodes,
+  useSetEffectsMode,
+  useShowConnectionLabels,
+  useViewPreferences,
+} from '@/react/state/useDashboard';
+import { getConnectionLineDash, getConnectionLineWidth, getConnectionStroke } from '@/react/utils/connectionStyle';
+import { formatDepthLabel } from '@/react/utils/graph';
+import { applyGraphDiff, diffGraphData, isEmptyDiff } from '@/react/utils/graphDiff';
 import useClusters from '../dashboard/hooks/useClusters';
+import useHomeDepths from '../dashboard/hooks/useHomeDepths';
+import { PayloadError } from '../dashboard/PayloadError';
+import { SystemPanel } from '../dashboard/SystemPanel';
+import { DepthControls } from '../maps/DepthControls';
+import { EdgeStyleControls } from '../maps/EdgeStyleControls';
+import { EffectsToggle } from '../maps/EffectsToggle';
 
-// =============================================================================
-// EDGE ANIMATION CONFIGURATION
-// Change this value to switch between animation types:
-// - 'moving-dots': Animated dots/impulses moving along edges toward home
-// - 'ant-line': Marching ants dashed line effect
-// - 'line': Standard static line (no animation)
-// =============================================================================
-const EDGE_ANIMATION_TYPE: 'moving-dots' | 'ant-line' | 'line' = 'moving-dots';
-
-// =============================================================================
-// CUSTOM EDGE: Moving Dots (Impulses toward home system)
-// =============================================================================
-class MovingDotsEdge extends Line {
-  private animationFrameId: number | null = null;
-  private dots: any[] = [];
-
-  onCreate() {
-    this.createMovingDots();
-  }
-
-  onUpdate() {
-    this.destroyDots();
-    this.createMovingDots();
-  }
-
-  onDestroy() {
-    this.destroyDots();
-  }
-
-  private destroyDots() {
-    if (this.animationFrameId) {
-      cancelAnimationFrame(this.animationFrameId);
-      this.animationFrameId = null;
-    }
-    this.dots.forEach((dot, i) => {
-      const shape = this.getShape(`moving-dot-${i}`);
-      if (shape) {
-        shape.remove();
-      }
-    });
-    this.dots = [];
-  }
-
-  private createMovingDots() {
-    // Get source and target node references
-    const sourceNode = (this as any).sourceNode;
-    const targetNode = (this as any).targetNode;
-
-    if (!sourceNode || !targetNode) return;
-
-    // Get positions: source = offsetDistance 0, target = offsetDistance 1
-    const [x1, y1] = sourceNode.getPosition();
-    const [x2, y2] = targetNode.getPosition();
-
-    // Get edge ID from the element's id property
-    const edgeId = (this as any).id;
-
-    // Get pre-computed direction from edge data (computed via BFS in SharedMapViewer)
-    // directionToHome: 'source' = animate toward source, 'target' = animate toward target
-    const context = (this as any).context;
-    let directionToHome: 'source' | 'target' = 'source';
-
-    if (context?.model && edgeId) {
-      try {
-        const edgeDataResult = context.model.getEdgeData(edgeId);
-        // getEdgeData returns an array, get first element
-        const edgeData = Array.isArray(edgeDataResult) ? edgeDataResult[0] : edgeDataResult;
-        directionToHome = edgeData?.data?.directionToHome || 'source';
-      } catch (e) {
-        // Fallback to source direction
-      }
-    }
-
-    // Determine animation direction based on pre-computed path to home
-    // directionToHome indicates which end is closer to home
-    // Dots should START far from home and END at home
-    //
-    // Swap the motion path direction instead of swapping offsets
-    const homeIsTowardTarget = directionToHome === 'target';
-
-    // Always animate from 0 to 1, but swap the path endpoints based on direction
-    const startOffset = 0;
-    const endOffset = 1;
-
-    // Configuration
-    const numDots = 3;
-    const dotRadius = 1;
-    const baseDuration = 2500;
-    const staggerDelay = 800;
-
-    // Green glow for home-bound traffic
-    const dotColor = 'rgba(0, 255, 136, 0.9)';
-    const glowColor = 'rgba(0, 255, 136, 0.6)';
-
-    // Create motion path FROM far end TO home
-    // offsetDistance: 0 = line start (x1,y1), 1 = line end (x2,y2)
-    // Animation always goes 0->1
-    //
-    // If home toward TARGET: dots go source->target, so line: source(x1,y1) -> target(x2,y2)
-    // If home toward SOURCE: dots go target->source, so line: target(x2,y2) -> source(x1,y1)
-    const motionPath = new GLine({
-      style: homeIsTowardTarget
-        ? { x1, y1, x2, y2 } // line from source to target
-        : { x1: x2, y1: y2, x2: x1, y2: y1 }, // line from target to source
-    });
-
-    // Create dots with staggered animations
-    for (let i = 0; i < numDots; i++) {
-      const dot = this.upsert(
-        `moving-dot-${i}`,
-        GCircle,
-        {
-          r: dotRadius,
-          fill: dotColor,
-          shadowColor: glowColor,
-          shadowBlur: 10,
-          opacity: 0,
-          offsetPath: motionPath,
-          offsetDistance: startOffset,
-        },
-        this,
-      );
-
-      this.dots.push(dot);
-
-      // Animate dot traveling TOWARD home
-      dot.animate(
-        [
-          { offsetDistance: startOffset, opacity: 0, r: dotRadius * 0.5 },
-          { offsetDistance: startOffset + (endOffset - startOffset) * 0.15, opacity: 0.8, r: dotRadius },
-          { offsetDistance: startOffset + (endOffset - startOffset) * 0.5, opacity: 1, r: dotRadius * 1.2 },
-          { offsetDistance: startOffset + (endOffset - startOffset) * 0.85, opacity: 0.8, r: dotRadius },
-          { offsetDistance: endOffset, opacity: 0, r: dotRadius * 0.5 },
-        ],
-        {
-          duration: baseDuration + i * 100,
-          iterations: Infinity,
-          easing: 'ease-in-out',
-          delay: i * staggerDelay,
-        },
-      );
-    }
-  }
-}
-
-// =============================================================================
-// CUSTOM EDGE: Ant Line (Marching ants dashed line effect)
-// =============================================================================
-class AntLineEdge extends Line {
-  onCreate() {
-    this.startAntAnimation();
-  }
-
-  onUpdate() {
-    // Animation continues on the key shape
-  }
-
-  private startAntAnimation() {
-    const keyShape = this.shapeMap.key;
-    if (!keyShape) return;
-
-    // Get edge ID from the element's id property
-    const edgeId = (this as any).id;
-
-    // Get pre-computed direction from edge data (computed via BFS in SharedMapViewer)
-    const context = (this as any).context;
-    let directionToHome: 'source' | 'target' = 'source';
-
-    if (context?.model && edgeId) {
-      try {
-        const edgeDataResult = context.model.getEdgeData(edgeId);
-        // getEdgeData returns an array, get first element
-        const edgeData = Array.isArray(edgeDataResult) ? edgeDataResult[0] : edgeDataResult;
-        directionToHome = edgeData?.data?.directionToHome || 'source';
-      } catch {
-        // Fallback to source direction
-      }
-    }
-
-    // Animate TOWARD home system
-    // INVERTED to match moving-dots fix
-    const dashLength = 20;
-    const animateTowardTarget = directionToHome === 'target';
-
-    // Animate lineDashOffset for marching effect TOWARD home
-    keyShape.animate(
-      animateTowardTarget
-        ? [{ lineDashOffset: 0 }, { lineDashOffset: dashLength }] // Toward target (home direction)
-        : [{ lineDashOffset: dashLength }, { lineDashOffset: 0 }], // Toward source (home direction)
-      {
-        duration: 800,
-        iterations: Infinity,
-        easing: 'linear',
-      },
-    );
-  }
-}
-
-// Register custom edge types
-try {
-  register(ExtensionCategory.EDGE, 'moving-dots', MovingDotsEdge);
-} catch {
-  // Already registered
-}
-
-try {
-  register(ExtensionCategory.EDGE, 'ant-line', AntLineEdge);
-} catch {
-  // Already registered
-}
-
-// Register the BreathingCircle node type (same as Map.tsx)
-class BreathingCircle extends Circle {
-  constructor(options: any) {
-    super(options);
-    this.isLowPerformance = this.detectLowPerformance();
-  }
-
-  isLowPerformance: boolean;
-
-  onCreate() {
-    this.createSecurityValueText();
-    // this.createBorderIndicator();
-    this.createMainIndicator();
-  }
-
-  onUpdate() {
-    this.createSecurityValueText();
-    // this.createBorderIndicator();
-    this.createMainIndicator();
-  }
-
-  detectLowPerformance() {
-    // Enable animations for home system wormhole effect
-    return false;
-  }
-
-  createSecurityValueText() {
-    const security = (this as any).attributes.security;
-    const systemClass = (this as any).attributes.systemClass;
-    const isWormhole = isWormholeSpace(systemClass);
-
-    if (security === undefined || security === null) {
-      return;
-    }
-
-    const securityText = isWormhole
-      ? `C${systemClass}`
-      : typeof security === 'number'
-        ? security.toFixed(1)
-        : String(security);
-
-    let textColor = '#FFFFFF';
-    if (typeof security === 'number') {
-      if (security >= 0.7) {
-        textColor = '#00BFFF';
-      } else if (security >= 0.5) {
-        textColor = '#90EE90';
-      } else if (security >= 0.3) {
-        textColor = '#FFA500';
-      } else {
-        textColor = '#FF6B6B';
-      }
-    }
-
-    this.upsert(
-      'security-value-text',
-      Text,
-      {
-        x: 0,
-        y: 0,
-        text: securityText,
-        fontSize: 8,
-        fontWeight: 'regular',
-        fill: textColor,
-        textAlign: 'center',
-        textBaseline: 'middle',
-        fontFamily: 'Arial, sans-serif',
-      },
-      this,
-    );
-  }
-
-  getHexagonPoints(radius: number) {
-    const points = [];
-    for (let i = 0; i < 6; i++) {
-      const angle = (i * Math.PI) / 3;
-      const x = radius * Math.cos(angle);
-      const y = radius * Math.sin(angle);
-      points.push([x, y]);
-    }
-    return points;
-  }
-
-  createBorderIndicator() {
-    if (!(this as any).attributes.isBorder) {
-      return;
-    }
-
-    const size = (this as any).attributes.size || 50;
-    const radius = size / 1.5;
-    const borderColor = 'rgba(255, 165, 0, 0.9)';
-
-    const innerBorderRadius = radius + 4;
-    const innerBorder = this.upsert(
-      'border-inner-ring',
-      Polygon,
-      {
-        points: this.getHexagonPoints(innerBorderRadius),
-        fill: 'transparent',
-        stroke: borderColor,
-        strokeWidth: 1.5,
-        strokeOpacity: 0.6,
-      },
-      this,
-    );
-
-    if (this.isLowPerformance) {
-      return;
-    }
-
-    innerBorder.animate(
-      [
-        { strokeOpacity: 0.6, strokeWidth: 1.5 },
-        { strokeOpacity: 0.3, strokeWidth: 2 },
-      ],
-      {
-        duration: 1500,
-        iterations: Infinity,
-        direction: 'alternate',
-        easing: 'ease-in-out',
-        delay: 750,
-      },
-    );
-  }
-
-  createMainIndicator() {
-    if (!(this as any).attributes.isMain) {
-      return;
-    }
-
-    const size = (this as any).attributes.size || 20;
-    const baseRadius = size / 2;
-
-    // Wormhole color palette
-    const wormholeColors = [
-      'rgba(138, 43, 226, 0.6)', // Deep violet
-      'rgba(75, 0, 130, 0.5)', // Indigo
-      'rgba(0, 191, 255, 0.4)', // Deep sky blue
-      'rgba(0, 255, 127, 0.3)', // Spring green
-      'rgba(255, 20, 147, 0.35)', // Deep pink
-    ];
-
-    // Create morphing aura layers (from outer to inner)
-    const auraLayers = [
-      { offset: 18, color: wormholeColors[0], width: 8, opacity: 0.15 },
-      { offset: 14, color: wormholeColors[1], width: 6, opacity: 0.25 },
-      { offset: 10, color: wormholeColors[2], width: 5, opacity: 0.35 },
-      { offset: 6, color: wormholeColors[3], width: 4, opacity: 0.45 },
-      { offset: 3, color: wormholeColors[4], width: 3, opacity: 0.55 },
-    ];
-
-    // Create each aura layer
-    const layers = auraLayers.map((layer, i) => {
-      return this.upsert(
-        `wormhole-aura-${i}`,
-        GCircle,
-        {
-          cx: 0,
-          cy: 0,
-          r: baseRadius + layer.offset,
-          fill: 'transparent',
-          stroke: layer.color,
-          lineWidth: layer.width,
-          strokeOpacity: layer.opacity,
-        },
-        this,
-      );
-    });
-
-    // Core glow (central bright ring)
-    const coreGlow = this.upsert(
-      'wormhole-core',
-      GCircle,
-      {
-        cx: 0,
-        cy: 0,
-        r: baseRadius + 1,
-        fill: 'transparent',
-        stroke: 'rgba(255, 255, 255, 0.8)',
-        lineWidth: 2,
-        strokeOpacity: 0.7,
-      },
-      this,
-    );
+registerAnimatedEdges();
+registerBreathingCircle('breathing-circle-shared');
 
-    // Skip animations on low performance devices
-    if (this.isLowPerformance) {
-      return;
-    }
-
-    // Animate each layer with different phases to create morphing effect
-    layers.forEach((layer, i) => {
-      const config = auraLayers[i];
-      const phase = i * 400; // Stagger animation phases
-      const duration = 3000 + i * 300; // Slightly different speeds
-
-      // Breathing/morphing animation
-      layer.animate(
-        [
-          {
-            r: baseRadius + config.offset,
-            strokeOpacity: config.opacity,
-            lineWidth: config.width,
-          },
-          {
-            r: baseRadius + config.offset + 4 - i * 0.5,
-            strokeOpacity: config.opacity * 0.4,
-            lineWidth: config.width + 3,
-          },
-          {
-            r: baseRadius + config.offset - 2 + i * 0.3,
-            strokeOpacity: config.opacity * 1.3,
-            lineWidth: config.width - 1,
-          },
-          {
-            r: baseRadius + config.offset,
-            strokeOpacity: config.opacity,
-            lineWidth: config.width,
-          },
-        ],
-        {
-          duration,
-          iterations: Infinity,
-          easing: 'ease-in-out',
-          delay: phase,
-        },
-      );
-    });
-
-    // Core pulsing animation
-    coreGlow.animate(
-      [
-        { strokeOpacity: 0.7, lineWidth: 2, stroke: 'rgba(255, 255, 255, 0.8)' },
-        { strokeOpacity: 0.4, lineWidth: 3, stroke: 'rgba(200, 220, 255, 0.6)' },
-        { strokeOpacity: 0.9, lineWidth: 1.5, stroke: 'rgba(255, 255, 255, 0.9)' },
-        { strokeOpacity: 0.7, lineWidth: 2, stroke: 'rgba(255, 255, 255, 0.8)' },
-      ],
-      {
-        duration: 2500,
-        iterations: Infinity,
-        easing: 'ease-in-out',
-      },
-    );
-  }
-}
-
-// Register if not already registered
-try {
-  register(ExtensionCategory.NODE, 'breathing-circle-shared', BreathingCircle);
-} catch {
-  // Already registered
-}
+// Shown when the share link has no edge style of its own
+const DEFAULT_SHARED_EDGE_STYLE: EdgeStyle = 'moving-dots';
 
 const animation = {
   duration: 500,
@@ -486,6 +51,10 @@ const SharedHeader = ({
   snapshotAt: string | null;
 }) => {
   const maps = useMaps();
+  const connectionLabelsVisible = useConnectionLabelsVisible();
+  const showConnectionLabels = useShowConnectionLabels();
+  const effects = useEffects();
+  const setEffectsMode = useSetEffectsMode();
 
   const formatExpiration = (isoString: string) => {
     try {
@@ -553,6 +122,28 @@ const SharedHeader = ({
 
           {/* Status indicators */}
           <div className="flex items-center gap-2">
+            {/* Jumps from home */}
+            <DepthControls />
+
+            {/* Connection style */}
+            <EdgeStyleControls />
+
+            {/* Animated effects */}
+            <EffectsToggle effects={effects} onChange={setEffectsMode} />
+
+            {/* Wormhole type labels toggle */}
+            <button
+              className={`p-1 rounded border transition-all duration-200 ${
+                connectionLabelsVisible
+                  ? 'border-cyber-primary/50 bg-cyber-primary/10'
+                  : 'border-cyber-primary/20 bg-cyber-dark-800/50 hover:border-cyber-primary/50'
+              }`}
+              onClick={() => showConnectionLabels(!connectionLabelsVisible)}
+              title={connectionLabelsVisible ? 'Hide wormhole types' : 'Show wormhole types'}
+            >
+              <span className="hero-tag-solid block w-3 h-3 text-cyber-primary/70" />
+            </button>
+
             {/* Snapshot or Live badge */}
             {isSnapshot ? (
               <>
@@ -595,77 +186,6 @@ const SharedHeader = ({
   );
 };
 
-// =============================================================================
-// UTILITY: Compute edge directions toward home using BFS
-// =============================================================================
-function computeEdgeDirectionsToHome(nodes: any[], edges: any[]): Map<string, 'source' | 'target'> {
-  const edgeDirections = new Map<string, 'source' | 'target'>();
-
-  // Find home node (isMain = true)
-  const homeNode = nodes.find(n => n.data?.isMain);
-  if (!homeNode) {
-    // No home node found - no directions to compute
-    return edgeDirections;
-  }
-
-  const homeId = homeNode.id;
-
-  // Build adjacency list (undirected graph)
-  const adjacency = new Map<string, Set<string>>();
-  for (const node of nodes) {
-    adjacency.set(node.id, new Set());
-  }
-  for (const edge of edges) {
-    adjacency.get(edge.source)?.add(edge.target);
-    adjacency.get(edge.target)?.add(edge.source);
-  }
-
-  // BFS from home to determine parent (next hop toward home) for each node
-  const parentMap = new Map<string, string>(); // nodeId -> parentId (toward home)
-  const visited = new Set<string>();
-  const queue: string[] = [homeId];
-  visited.add(homeId);
-
-  while (queue.length > 0) {
-    const current = queue.shift()!;
-    const neighbors = adjacency.get(current) || new Set();
-
-    for (const neighbor of neighbors) {
-      if (!visited.has(neighbor)) {
-        visited.add(neighbor);
-        parentMap.set(neighbor, current); // neighbor's parent is current (one step closer to home)
-        queue.push(neighbor);
-      }
-    }
-  }
-
-  // For each edge, determine direction toward home
-  // The direction value indicates which end of the edge is CLOSER to home
-  // Animation will move FROM the far end TOWARD the closer end
-  for (const edge of edges) {
-    const { source, target, id } = edge;
-
-    if (source === homeId) {
-      // Source IS home - animate toward source
-      edgeDirections.set(id, 'source');
-    } else if (target === homeId) {
-      // Target IS home - animate toward target
-      edgeDirections.set(id, 'target');
-    } else if (parentMap.get(source) === target) {
-      // Source's parent is target -> source is farther, target is closer to home
-      edgeDirections.set(id, 'target');
-    } else if (parentMap.get(target) === source) {
-      // Target's parent is source -> target is farther, source is closer to home
-      edgeDirections.set(id, 'source');
-    } else {
-      // Fallback (shouldn't happen in a connected tree)
-      edgeDirections.set(id, 'source');
-    }
-  }
-
-  return edgeDirections;
-}
-
 // Map viewer component (read-only version)
 const SharedMapViewer = () => {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -673,31 +193,45 @@ const SharedMapViewer = () => {
 
   const nodes = useNodes();
   const edges = useEdges();
-  const clusters = useClusters(nodes);
+  const viewPreferences = useViewPreferences();
+  const { homeDistances, visibleNodes } = useHomeDepths(nodes, edges);
+  const clusters = useClusters(visibleNodes);
+
+  // System shown in the (read-only) details panel
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
 
   const data = useMemo(() => {
-    const nodeIds = new Set(nodes.map(n => n.id));
+    const nodeIds = new Set(visibleNodes.map(n => n.id));
     const validEdges = edges.filter((e: any) => nodeIds.has(e.source) && nodeIds.has(e.target));
 
-    // Compute direction toward home for each edge using BFS
-    const edgeDirections = computeEdgeDirectionsToHome(nodes, validEdges);
-
-    // Add direction data to each edge
-    const edgesWithDirection = validEdges.map((edge: any) => ({
-      ...edge,
-      data: {
-        ...edge.data,
-        // 'source' means animate toward source, 'target' means animate toward target
-        directionToHome: edgeDirections.get(edge.id) || 'source',
-      },
-    }));
-
-    return { nodes, edges: edgesWithDirection };
-  }, [nodes, edges]);
+    // Jump counts from home with depth tint, and tint by owning home
+    const { depthOverlay, homeTint } = viewPreferences;
+    const nodesWithDepth =
+      depthOverlay || homeTint
+        ? visibleNodes.map(node => {
+            const depth = homeDistances.depths.get(node.id);
+            const depthData = depthOverlay ? { depth: depth ?? null, depthFill: getDepthColor(depth) } : {};
+            const homeData = homeTint
+              ? { homeFill: getHomeColor(homeDistances.homeIds, homeDistances.owners.get(node.id)) }
+              : {};
+            return { ...node, data: { ...node.data, ...depthData, ...homeData } };
+          })
+        : visibleNodes;
+
+    return { nodes: nodesWithDepth, edges: validEdges };
+  }, [visibleNodes, edges, homeDistances, viewPreferences.depthOverlay, viewPreferences.homeTint]);
 
   const clustersRef = useRef(clusters);
   clustersRef.current = clusters;
 
+  const effects = useEffects();
+  const effectsRef = useRef(effects);
+  effectsRef.current = effects;
+
+  const edgeStyle = useEdgeStyle();
+  const edgeStyleRef = useRef(edgeStyle);
+  edgeStyleRef.current = edgeStyle;
+
   const graphConfig = useMemo(
     () => ({
       theme: 'dark',
@@ -759,7 +293,7 @@ const SharedMapViewer = () => {
         },
         style: {
           size: 20,
-          fill: (d: any) => d.data.bgFill,
+          fill: (d: any) => d.data.homeFill || d.data.depthFill || d.data.bgFill,
           patternType: (d: any) => d.data.patternType || 'honeycomb',
           starIntensity: (d: any) => d.data.starIntensity || 0.8,
           tacticalColor: (d: any) => d.data.tacticalColor || 'rgba(0, 255, 255, 0.8)',
@@ -775,11 +309,12 @@ const SharedMapViewer = () => {
           labelFontFamily: 'Arial',
           labelFontSize: '20',
           labelPadding: [0, 4],
-          labelText: (d: any) => d.data.name,
+          labelText: (d: any) => formatDepthLabel(d.data.name, d.data.depth),
           halo: false,
           isMain: (d: any) => !!d.data.isMain,
           isBorder: (d: any) => d.data.isBorder || false,
           borderMaps: (d: any) => d.data.borderMaps || [],
+          animated: () => !effectsRef.current.reduced,
           badges: (d: any) =>
             d.id === 'badges'
               ? [
@@ -798,15 +333,19 @@ const SharedMapViewer = () => {
         },
       },
       edge: {
-        type: EDGE_ANIMATION_TYPE,
+        type: edgeStyleRef.current,
         style: {
-          // Base line style
-          lineWidth: EDGE_ANIMATION_TYPE === 'ant-line' ? 2 : 3,
-          stroke: EDGE_ANIMATION_TYPE === 'ant-line' ? 'rgba(0, 255, 136, 0.6)' : 'rgba(100, 150, 200, 0.5)',
-          // Dashed style for ant-line effect
-          ...(EDGE_ANIMATION_TYPE === 'ant-line' && {
-            lineDash: [10, 10],
-          }),
+          // Base line style, adjusted per connection for ship size and mass status
+          lineWidth: (e: any) =>
+            getConnectionLineWidth(e.data.shipSizeType, edgeStyleRef.current === 'ant-line' ? 2 : 3),
+          stroke: (e: any) =>
+            getConnectionStroke(
+              e.data.massStatus,
+              edgeStyleRef.current === 'ant-line' ? 'rgba(0, 255, 136, 0.6)' : 'rgba(100, 150, 200, 0.5)',
+            ),
+          // Dashed style for ant-line effect, dotted for end-of-life connections
+          lineDash: (e: any) =>
+            getConnectionLineDash(e.data.timeStatus, edgeStyleRef.current === 'ant-line' ? ANT_LINE_DASH : undefined),
           // Label styling
           labelPosition: 'center',
           labelTextBaseline: 'top',
@@ -823,6 +362,7 @@ const SharedMapViewer = () => {
           labelBackgroundFillOpacity: 0.5,
           labelWordWrap: true,
           labelMaxLines: 4,
+          animated: () => !effectsRef.current.reduced,
         },
       },
     }),
@@ -851,6 +391,11 @@ const SharedMapViewer = () => {
     graphRef.current = graph;
     isInitialRenderDone.current = false;
 
+    graph.on('node:click', (evt: any) => {
+      if (evt.target?.id) setSelectedNodeId(evt.target.id);
+    });
+    graph.on('canvas:click', () => setSelectedNodeId(null));
+
     const resizeObserver = new ResizeObserver(entries => {
       for (const entry of entries) {
         const { width: newWidth, height: newHeight } = entry.contentRect;
@@ -881,40 +426,47 @@ const SharedMapViewer = () => {
     graphRef.current.setPlugins([...nonHullPlugins, ...clusters]);
   }, [clusters]);
 
-  const lastRenderedDataRef = useRef<string>('');
+  // Start or stop the node and edge animations when reduced effects are switched
+  useEffect(() => {
+    if (!graphRef.current || !isInitialRenderDone.current) return;
+
+    graphRef.current.setNode(graphConfig.node as NodeOptions);
+    graphRef.current.setEdge({ ...graphConfig.edge, type: edgeStyleRef.current } as EdgeOptions);
+    graphRef.current.draw();
+  }, [effects.reduced]);
 
+  // Switch between plain and animated connections
   useEffect(() => {
-    if (!graphRef.current || !data?.nodes?.length) return;
+    if (!graphRef.current || !isInitialRenderDone.current) return;
 
-    const graph = graphRef.current;
+    graphRef.current.setEdge({ ...graphConfig.edge, type: edgeStyle } as EdgeOptions);
+    graphRef.current.draw();
+  }, [edgeStyle]);
 
-    const dataHash = JSON.stringify({
-      nodes: data.nodes
-        .map((n: any) => ({ id: n.id, x: n.style?.x, y: n.style?.y }))
-        .sort((a: any, b: any) => a.id.localeCompare(b.id)),
-      edges: data.edges.map((e: any) => e.id).sort(),
-    });
+  const lastRenderedDataRef = useRef<typeof data | null>(null);
 
-    const hasChanges = dataHash !== lastRenderedDataRef.current;
+  useEffect(() => {
+    if (!graphRef.current || !data?.nodes?.length) return;
+
+    const graph = graphRef.current;
 
     if (!isInitialRenderDone.current) {
       graph.setData(data);
       graph.render().then(() => {
         graph.fitView();
         isInitialRenderDone.current = true;
-        lastRenderedDataRef.current = dataHash;
+        lastRenderedDataRef.current = data;
       });
       return;
     }
 
-    if (!hasChanges) {
+    const diff = diffGraphData(lastRenderedDataRef.current, data);
+    if (isEmptyDiff(diff)) {
       return;
     }
 
-    graph.setData(data);
-    graph.render().then(() => {
-      lastRenderedDataRef.current = dataHash;
-    });
+    lastRenderedDataRef.current = data;
+    applyGraphDiff(graph, diff);
   }, [data]);
 
   return (
@@ -922,19 +474,21 @@ const SharedMapViewer = () => {
       <main className="w-full bg-gray-800" style={{ height: 'calc(100vh - 40px)', marginTop: '40px' }}>
         <div ref={containerRef} className="w-full h-full" />
       </main>
+      <SystemPanel nodeId={selectedNodeId} onClose={() => setSelectedNodeId(null)} />
     </div>
   );
 };
 
 // Main SharedDashboard component
 interface SharedDashboardProps {
-  data: any[];
-  map_cached_data: Record<string, any>;
-  license_state: any;
+  data: unknown;
+  map_cached_data: unknown;
+  license_state: unknown;
   expires_at: string;
   is_snapshot: boolean;
   snapshot_at: string | null;
   description?: string | null;
+  edge_style?: string | null;
 }
 
 // Encrypted message style description shown below header
@@ -983,12 +537,27 @@ export const SharedDashboard: React.FC<SharedDashboardProps> = ({
   is_snapshot,
   snapshot_at,
   description,
+  edge_style,
 }) => {
   // No pushEvent - read-only mode
   const noop = () => {};
 
+  const maps = useMemo(() => decodeMaps(data), [data]);
+  const mapCachedData = useMemo(() => decodeMapCachedData(map_cached_data), [map_cached_data]);
+  const licenseState = useMemo(() => decodeLicenseState(license_state), [license_state]);
+
+  if (!maps.ok || !mapCachedData.ok || !licenseState.ok) {
+    return <PayloadError error={firstError(maps, mapCachedData, licenseState)!} />;
+  }
+
   return (
-    <DashboardProvider pushEvent={noop} serverMaps={data} mapCachedData={map_cached_data} licenseState={license_state}>
+    <DashboardProvider
+      pushEvent={noop}
+      serverMaps={maps.value}
+      mapCachedData={mapCachedData.value}
+      licenseState={licenseState.value}
+      defaultEdgeStyle={isEdgeStyle(edge_style) ? edge_style : DEFAULT_SHARED_EDGE_STYLE}
+    >
       <SharedHeader expiresAt={expires_at} isSnapshot={is_snapshot} snapshotAt={snapshot_at} />
       {description && <DescriptionCard description={description} />}
       <SharedMapViewer />
@@ -1,17 +1,27 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 
+import { decodeMap, decodeMapCachedData, firstError } from '@/react/model';
 import { SharedMapProvider } from '@/react/state/useSharedMap';
+import { PayloadError } from '../dashboard/PayloadError';
+
 import SharedMapViewer from './SharedMapViewer';
 
 interface SharedMapProps {
-  map: any;
-  map_cached_data: Record<string, any>;
+  map: unknown;
+  map_cached_data: unknown;
   expires_at: string;
 }
 
 export const SharedMap: React.FC<SharedMapProps> = ({ map, map_cached_data, expires_at }) => {
+  const decodedMap = useMemo(() => decodeMap(map), [map]);
+  const mapCachedData = useMemo(() => decodeMapCachedData(map_cached_data), [map_cached_data]);
+
+  if (!decodedMap.ok || !mapCachedData.ok) {
+    return <PayloadError error={firstError(decodedMap, mapCachedData)!} />;
+  }
+
   return (
-    <SharedMapProvider map={map} mapCachedData={map_cached_data} expiresAt={expires_at}>
+    <SharedMapProvider map={decodedMap.value} mapCachedData={mapCachedData.value} expiresAt={expires_at}>
       <SharedMapViewer />
     </SharedMapProvider>
   );
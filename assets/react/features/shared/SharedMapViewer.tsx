@@ -1,305 +1,23 @@
 import React, { useEffect, useMemo, useRef } from 'react';
-import { Circle as GCircle, Polygon, Text } from '@antv/g';
-import { Circle, ExtensionCategory, Graph, register } from '@antv/g6';
-
-import { useExpiresAt, useSharedEdges, useSharedMapData, useSharedNodes } from '@/react/state/useSharedMap';
-import { isWormholeSpace } from '@/react/utils/isWormholeSpace';
-
-// Reuse the BreathingCircle node type from Map.tsx
-class BreathingCircle extends Circle {
-  isLowPerformance: boolean;
-
-  constructor(options: any) {
-    super(options);
-    this.isLowPerformance = false; // Enable animations for wormhole effect
-  }
-
-  onCreate() {
-    this.createSecurityValueText();
-    // this.createBorderIndicator();
-    this.createMainIndicator();
-  }
-
-  onUpdate() {
-    this.createSecurityValueText();
-    // this.createBorderIndicator();
-    this.createMainIndicator();
-  }
-
-  createSecurityValueText() {
-    const security = this.attributes.security;
-    const systemClass = this.attributes.systemClass;
-    const isWormhole = isWormholeSpace(systemClass);
-
-    if (security === undefined || security === null) {
-      return;
-    }
-
-    const securityText = isWormhole
-      ? `C${systemClass}`
-      : typeof security === 'number'
-        ? security.toFixed(1)
-        : String(security);
-
-    let textColor = '#FFFFFF';
-    if (typeof security === 'number') {
-      if (security >= 0.7) {
-        textColor = '#00BFFF';
-      } else if (security >= 0.5) {
-        textColor = '#90EE90';
-      } else if (security >= 0.3) {
-        textColor = '#FFA500';
-      } else {
-        textColor = '#FF6B6B';
-      }
-    }
-
-    this.upsert(
-      'security-value-text',
-      Text,
-      {
-        x: 0,
-        y: 0,
-        text: securityText,
-        fontSize: 8,
-        fontWeight: 'regular',
-        fill: textColor,
-        textAlign: 'center',
-        textBaseline: 'middle',
-        fontFamily: 'Arial, sans-serif',
-      },
-      this,
-    );
-  }
-
-  getHexagonPoints(radius: number) {
-    const points = [];
-    for (let i = 0; i < 6; i++) {
-      const angle = (i * Math.PI) / 3;
-      const x = radius * Math.cos(angle);
-      const y = radius * Math.sin(angle);
-      points.push([x, y]);
-    }
-    return points;
-  }
-
-  createBorderIndicator() {
-    if (!this.attributes.isBorder) {
-      return;
-    }
-
-    const size = this.attributes.size || 50;
-    const radius = size / 1.5;
-    const borderColor = 'rgba(255, 165, 0, 0.9)';
-    const innerBorderRadius = radius + 4;
-
-    this.upsert(
-      'border-inner-ring',
-      Polygon,
-      {
-        points: this.getHexagonPoints(innerBorderRadius),
-        fill: 'transparent',
-        stroke: borderColor,
-        strokeWidth: 1.5,
-        strokeOpacity: 0.6,
-      },
-      this,
-    );
-  }
-
-  createMainIndicator() {
-    if (!this.attributes.isMain) {
-      return;
-    }
-
-    const size = this.attributes.size || 20;
-    const baseRadius = size / 2;
-    const maxRadius = baseRadius + 25;
-
-    // 3D Wormhole tunnel effect - rings emerge from center and expand outward
-    // Creating a portal/vortex illusion with depth
-    const numRings = 6;
-    const tunnelDuration = 3000;
-
-    // Color gradient for tunnel depth (bright center -> dim edges)
-    const getColor = (progress: number) => {
-      // Shift from bright cyan/white at center to deep purple at edges
-      const r = Math.round(100 + 138 * progress);
-      const g = Math.round(255 - 180 * progress);
-      const b = Math.round(255 - 30 * progress);
-      return `rgba(${r}, ${g}, ${b}, 1)`;
-    };
-
-    // Create tunnel rings that will animate from center outward
-    for (let i = 0; i < numRings; i++) {
-      const phaseOffset = (i / numRings) * tunnelDuration;
-      const startRadius = baseRadius + 2;
-
-      const ring = this.upsert(
-        `wormhole-tunnel-${i}`,
-        GCircle,
-        {
-          cx: 0,
-          cy: 0,
-          r: startRadius,
-          fill: 'transparent',
-          stroke: getColor(0),
-          lineWidth: 3,
-          strokeOpacity: 0,
-        },
-        this,
-      );
-
-      // Skip animations on low performance devices
-      if (this.isLowPerformance) {
-        // Static fallback - show rings at fixed positions
-        ring.attr({
-          r: baseRadius + 4 + i * 4,
-          stroke: getColor(i / numRings),
-          strokeOpacity: 0.3 - i * 0.04,
-          lineWidth: 2,
-        });
-        continue;
-      }
-
-      // 3D tunnel animation - rings spawn from center, expand, fade out
-      ring.animate(
-        [
-          // Birth - small, bright, thin
-          {
-            r: startRadius,
-            strokeOpacity: 0,
-            lineWidth: 1,
-            stroke: 'rgba(255, 255, 255, 0.9)',
-          },
-          // Emerge - growing, peak brightness
-          {
-            r: baseRadius + 6,
-            strokeOpacity: 0.8,
-            lineWidth: 2.5,
-            stroke: 'rgba(150, 255, 255, 0.9)',
-          },
-          // Mid-tunnel - expanding, transitioning color
-          {
-            r: baseRadius + 12,
-            strokeOpacity: 0.6,
-            lineWidth: 3,
-            stroke: 'rgba(100, 200, 255, 0.8)',
-          },
-          // Approaching edge - larger, dimming
-          {
-            r: baseRadius + 18,
-            strokeOpacity: 0.35,
-            lineWidth: 4,
-            stroke: 'rgba(138, 100, 226, 0.6)',
-          },
-          // Exit - fading into void
-          {
-            r: maxRadius,
-            strokeOpacity: 0,
-            lineWidth: 5,
-            stroke: 'rgba(75, 0, 130, 0.3)',
-          },
-        ],
-        {
-          duration: tunnelDuration,
-          iterations: Infinity,
-          easing: 'ease-out',
-          delay: phaseOffset,
-        },
-      );
-    }
-
-    // Event horizon glow - the bright center of the wormhole
-    const eventHorizon = this.upsert(
-      'wormhole-event-horizon',
-      GCircle,
-      {
-        cx: 0,
-        cy: 0,
-        r: baseRadius + 1,
-        fill: 'transparent',
-        stroke: 'rgba(200, 255, 255, 0.9)',
-        lineWidth: 2,
-        strokeOpacity: 0.8,
-      },
-      this,
-    );
-
-    // Inner glow - creates depth illusion
-    const innerGlow = this.upsert(
-      'wormhole-inner-glow',
-      GCircle,
-      {
-        cx: 0,
-        cy: 0,
-        r: baseRadius - 2,
-        fill: 'rgba(150, 255, 255, 0.1)',
-        stroke: 'transparent',
-        fillOpacity: 0.15,
-      },
-      this,
-    );
-
-    if (this.isLowPerformance) {
-      return;
-    }
-
-    // Event horizon pulsing - the "edge" of the portal
-    eventHorizon.animate(
-      [
-        {
-          strokeOpacity: 0.8,
-          lineWidth: 2,
-          stroke: 'rgba(200, 255, 255, 0.9)',
-        },
-        {
-          strokeOpacity: 0.5,
-          lineWidth: 3,
-          stroke: 'rgba(255, 255, 255, 1)',
-        },
-        {
-          strokeOpacity: 0.9,
-          lineWidth: 1.5,
-          stroke: 'rgba(150, 255, 200, 0.95)',
-        },
-        {
-          strokeOpacity: 0.8,
-          lineWidth: 2,
-          stroke: 'rgba(200, 255, 255, 0.9)',
-        },
-      ],
-      {
-        duration: 1500,
-        iterations: Infinity,
-        easing: 'ease-in-out',
-      },
-    );
-
-    // Inner glow breathing - simulates looking into the tunnel
-    innerGlow.animate(
-      [
-        { fillOpacity: 0.15, r: baseRadius - 2 },
-        { fillOpacity: 0.25, r: baseRadius - 1 },
-        { fillOpacity: 0.1, r: baseRadius - 3 },
-        { fillOpacity: 0.15, r: baseRadius - 2 },
-      ],
-      {
-        duration: 2000,
-        iterations: Infinity,
-        easing: 'ease-in-out',
-        delay: 500,
-      },
-    );
-  }
-}
-
-// Register the node type if not already registered
-try {
-  register(ExtensionCategory.NODE, 'breathing-circle-shared', BreathingCircle);
-} catch {
-  // Already registered
-}
+import { Graph, NodeOptions } from '@antv/g6';
+
+import { registerBreathingCircle } from '@/react/map/shape/breathingCircle';
+import {
+  useExpiresAt,
+  useSetSharedEffectsMode,
+  useSharedConnectionLabelsVisible,
+  useSharedEdges,
+  useSharedEffects,
+  useSharedMapData,
+  useSharedNodes,
+  useShowSharedConnectionLabels,
+} from '@/react/state/useSharedMap';
+import { getConnectionLineDash, getConnectionLineWidth, getConnectionStroke } from '@/react/utils/connectionStyle';
+import { applyGraphDiff, diffGraphData, isEmptyDiff } from '@/react/utils/graphDiff';
+import { EffectsToggle } from '../maps/EffectsToggle';
+
+// The standalone shared map keeps its own tunnel variant of the home system effect
+registerBreathingCircle('breathing-circle-shared-map', { homeEffect: 'tunnel' });
 
 const animation = {
   duration: 500,
@@ -314,6 +32,13 @@ const SharedMapViewer: React.FC = () => {
   const nodes = useSharedNodes();
   const edges = useSharedEdges();
   const expiresAt = useExpiresAt();
+  const connectionLabelsVisible = useSharedConnectionLabelsVisible();
+  const showConnectionLabels = useShowSharedConnectionLabels();
+  const effects = useSharedEffects();
+  const setEffectsMode = useSetSharedEffectsMode();
+
+  const effectsRef = useRef(effects);
+  effectsRef.current = effects;
 
   // Format expiration date for display
   const expiresAtFormatted = useMemo(() => {
@@ -397,7 +122,7 @@ const SharedMapViewer: React.FC = () => {
         size: 30,
       },
       node: {
-        type: 'breathing-circle-shared',
+        type: 'breathing-circle-shared-map',
         animation: {
           enter: false,
         },
@@ -424,6 +149,7 @@ const SharedMapViewer: React.FC = () => {
           isMain: (d: any) => !!d.data.isMain,
           isBorder: (d: any) => d.data.isBorder || false,
           borderMaps: (d: any) => d.data.borderMaps || [],
+          animated: () => !effectsRef.current.reduced,
           badgeFontSize: 8,
           badgePadding: [1, 4],
           portR: 3,
@@ -432,7 +158,9 @@ const SharedMapViewer: React.FC = () => {
       edge: {
         type: 'line',
         style: {
-          lineWidth: 5,
+          stroke: (e: any) => getConnectionStroke(e.data.massStatus),
+          lineWidth: (e: any) => getConnectionLineWidth(e.data.shipSizeType, 5),
+          lineDash: (e: any) => getConnectionLineDash(e.data.timeStatus),
           labelPosition: 'center',
           labelTextBaseline: 'top',
           labelDy: 5,
@@ -455,7 +183,7 @@ const SharedMapViewer: React.FC = () => {
   );
 
   const isInitialRenderDone = useRef(false);
-  const lastRenderedDataRef = useRef<string>('');
+  const lastRenderedDataRef = useRef<typeof data | null>(null);
 
   // Initialize graph once on mount
   useEffect(() => {
@@ -498,37 +226,37 @@ const SharedMapViewer: React.FC = () => {
     };
   }, []);
 
+  // Start or stop the node animations when reduced effects are switched
+  useEffect(() => {
+    if (!graphRef.current || !isInitialRenderDone.current) return;
+
+    graphRef.current.setNode(graphConfig.node as NodeOptions);
+    graphRef.current.draw();
+  }, [effects.reduced]);
+
   // Update data when it changes
   useEffect(() => {
     if (!graphRef.current || !data?.nodes?.length) return;
 
     const graph = graphRef.current;
 
-    const dataHash = JSON.stringify({
-      nodes: data.nodes.map(n => ({ id: n.id, x: n.style?.x, y: n.style?.y })).sort((a, b) => a.id.localeCompare(b.id)),
-      edges: data.edges.map(e => e.id).sort(),
-    });
-
-    const hasChanges = dataHash !== lastRenderedDataRef.current;
-
     if (!isInitialRenderDone.current) {
       graph.setData(data);
       graph.render().then(() => {
         graph.fitView();
         isInitialRenderDone.current = true;
-        lastRenderedDataRef.current = dataHash;
+        lastRenderedDataRef.current = data;
       });
       return;
     }
 
-    if (!hasChanges) {
+    const diff = diffGraphData(lastRenderedDataRef.current, data);
+    if (isEmptyDiff(diff)) {
       return;
     }
 
-    graph.setData(data);
-    graph.render().then(() => {
-      lastRenderedDataRef.current = dataHash;
-    });
+    lastRenderedDataRef.current = data;
+    applyGraphDiff(graph, diff);
   }, [data]);
 
   return (
@@ -543,6 +271,17 @@ const SharedMapViewer: React.FC = () => {
             <span className="text-white font-mono text-sm">{map.title}</span>
           </div>
           <div className="flex items-center gap-2 text-xs text-gray-400 font-mono">
+            <EffectsToggle effects={effects} onChange={setEffectsMode} />
+            <button
+              className={`px-2 py-0.5 rounded border text-xs font-mono transition-colors ${
+                connectionLabelsVisible
+                  ? 'border-orange-500/50 bg-orange-500/20 text-orange-400'
+                  : 'border-gray-600 text-gray-400 hover:border-orange-500/50'
+              }`}
+              onClick={() => showConnectionLabels(!connectionLabelsVisible)}
+            >
+              WH types
+            </button>
             <svg
               xmlns="http://www.w3.org/2000/svg"
               fill="none"
@@ -0,0 +1,25 @@
+import { useCallback, useState } from 'react';
+
+import { EdgeStyle, isEdgeStyle } from '@/react/constants/edgeStyles';
+import { loadJSON, saveJSON } from '@/react/utils/storage';
+
+// One choice per browser, shared by the owner dashboard and every shared view
+const STORAGE_KEY = 'wanderer-ops:edge-style';
+
+const loadEdgeStyle = (): EdgeStyle | null => {
+  const { edgeStyle } = loadJSON<{ edgeStyle: unknown }>(STORAGE_KEY, { edgeStyle: null });
+  return isEdgeStyle(edgeStyle) ? edgeStyle : null;
+};
+
+// The viewer's own choice wins; until they make one the view shows `defaultEdgeStyle`,
+// e.g. the style picked by the creator of a share link
+export const useEdgeStylePreference = (defaultEdgeStyle: EdgeStyle) => {
+  const [storedEdgeStyle, setStoredEdgeStyle] = useState(loadEdgeStyle);
+
+  const setEdgeStyle = useCallback((edgeStyle: EdgeStyle) => {
+    setStoredEdgeStyle(edgeStyle);
+    saveJSON(STORAGE_KEY, { edgeStyle });
+  }, []);
+
+  return { edgeStyle: storedEdgeStyle ?? defaultEdgeStyle, setEdgeStyle };
+};
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { EffectsMode, ReducedEffectsReason } from '@/react/constants/effects';
+import {
+  detectLowPerformance,
+  LOW_FRAME_RATE,
+  measureFrameRate,
+  prefersReducedMotion,
+  REDUCED_MOTION_QUERY,
+} from '@/react/utils/performance';
+import { loadJSON, saveJSON } from '@/react/utils/storage';
+
+// Stored per browser rather than per dashboard: it is about the device, not the maps
+const STORAGE_KEY = 'wanderer-ops:effects';
+// The frame rate probe waits for the map to settle, so the first render does not count against the device
+const PROBE_DELAY = 5000;
+
+export type Effects = {
+  mode: EffectsMode;
+  // Whether looping animations are off right now
+  reduced: boolean;
+  // Set when 'auto' turned them off
+  reason: ReducedEffectsReason | null;
+};
+
+export const useEffectsMode = () => {
+  const [mode, setMode] = useState<EffectsMode>(() => loadJSON(STORAGE_KEY, { mode: 'auto' as EffectsMode }).mode);
+  const [reducedMotion, setReducedMotion] = useState(prefersReducedMotion);
+  // Sticky for the session: once effects are off the frame rate recovers, which says nothing about the device
+  const [lowPerformance, setLowPerformance] = useState(detectLowPerformance);
+
+  useEffect(() => {
+    const query = window.matchMedia?.(REDUCED_MOTION_QUERY);
+    if (!query) return;
+
+    const handleChange = () => setReducedMotion(query.matches);
+    query.addEventListener('change', handleChange);
+    return () => query.removeEventListener('change', handleChange);
+  }, []);
+
+  // Devices that pass the capability check can still struggle with the map, so measure how it actually runs
+  useEffect(() => {
+    if (mode !== 'auto' || lowPerformance) return;
+
+    let cancelled = false;
+    let timeout: ReturnType<typeof setTimeout>;
+
+    const probe = async () => {
+      const frameRate = await measureFrameRate();
+      if (cancelled) return;
+
+      if (frameRate === null) {
+        // Hidden tab, measure again once it is visible
+        document.addEventListener('visibilitychange', scheduleProbe, { once: true });
+      } else if (frameRate < LOW_FRAME_RATE) {
+        setLowPerformance(true);
+      }
+    };
+
+    function scheduleProbe() {
+      timeout = setTimeout(probe, PROBE_DELAY);
+    }
+
+    scheduleProbe();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+      document.removeEventListener('visibilitychange', scheduleProbe);
+    };
+  }, [mode, lowPerformance]);
+
+  const setEffectsMode = useCallback((next: EffectsMode) => {
+    setMode(next);
+    saveJSON(STORAGE_KEY, { mode: next });
+  }, []);
+
+  const effects = useMemo((): Effects => {
+    const reason: ReducedEffectsReason | null =
+      mode !== 'auto' ? null : reducedMotion ? 'reduced-motion' : lowPerformance ? 'low-performance' : null;
+
+    return { mode, reduced: mode === 'reduced' || reason !== null, reason };
+  }, [mode, reducedMotion, lowPerformance]);
+
+  return { effects, setEffectsMode };
+};
@@ -0,0 +1,198 @@
+import { Circle as GCircle, IAnimation, Line as GLine } from '@antv/g';
+import { ExtensionCategory, Line, register } from '@antv/g6';
+
+// Dash pattern of the ant line; the marching animation shifts it by one full period
+export const ANT_LINE_DASH = [10, 10];
+
+// Line whose animation runs toward the home system
+class HomeBoundLine extends Line {
+  // Pre-computed direction from edge data (computed from the home BFS by the view)
+  // directionToHome: 'source' = animate toward source, 'target' = animate toward target
+  protected getDirectionToHome(): 'source' | 'target' {
+    try {
+      return this.context.model.getEdgeDatum(this.id).data?.directionToHome === 'target' ? 'target' : 'source';
+    } catch {
+      // Fallback to source direction
+      return 'source';
+    }
+  }
+}
+
+// =============================================================================
+// CUSTOM EDGE: Moving Dots (Impulses toward home system)
+// =============================================================================
+class MovingDotsEdge extends HomeBoundLine {
+  private animationFrameId: number | null = null;
+  private dots: GCircle[] = [];
+
+  onCreate() {
+    this.createMovingDots();
+  }
+
+  onUpdate() {
+    this.destroyDots();
+    this.createMovingDots();
+  }
+
+  onDestroy() {
+    this.destroyDots();
+  }
+
+  private destroyDots() {
+    if (this.animationFrameId) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    this.dots.forEach((_, i) => {
+      const shape = this.getShape(`moving-dot-${i}`);
+      if (shape) {
+        shape.remove();
+      }
+    });
+    this.dots = [];
+  }
+
+  private createMovingDots() {
+    // Reduced effects: a plain line
+    if ((this.attributes as { animated?: boolean }).animated === false) return;
+
+    // Get source and target node references
+    const { sourceNode, targetNode } = this;
+
+    if (!sourceNode || !targetNode) return;
+
+    // Get positions: source = offsetDistance 0, target = offsetDistance 1
+    const [x1, y1] = sourceNode.getPosition();
+    const [x2, y2] = targetNode.getPosition();
+
+    const directionToHome = this.getDirectionToHome();
+
+    // Determine animation direction based on pre-computed path to home
+    // directionToHome indicates which end is closer to home
+    // Dots should START far from home and END at home
+    //
+    // Swap the motion path direction instead of swapping offsets
+    const homeIsTowardTarget = directionToHome === 'target';
+
+    // Always animate from 0 to 1, but swap the path endpoints based on direction
+    const startOffset = 0;
+    const endOffset = 1;
+
+    // Configuration
+    const numDots = 3;
+    const dotRadius = 1;
+    const baseDuration = 2500;
+    const staggerDelay = 800;
+
+    // Green glow for home-bound traffic
+    const dotColor = 'rgba(0, 255, 136, 0.9)';
+    const glowColor = 'rgba(0, 255, 136, 0.6)';
+
+    // Create motion path FROM far end TO home
+    // offsetDistance: 0 = line start (x1,y1), 1 = line end (x2,y2)
+    // Animation always goes 0->1
+    //
+    // If home toward TARGET: dots go source->target, so line: source(x1,y1) -> target(x2,y2)
+    // If home toward SOURCE: dots go target->source, so line: target(x2,y2) -> source(x1,y1)
+    const motionPath = new GLine({
+      style: homeIsTowardTarget
+        ? { x1, y1, x2, y2 } // line from source to target
+        : { x1: x2, y1: y2, x2: x1, y2: y1 }, // line from target to source
+    });
+
+    // Create dots with staggered animations
+    for (let i = 0; i < numDots; i++) {
+      const dot = this.upsert(
+        `moving-dot-${i}`,
+        GCircle,
+        {
+          r: dotRadius,
+          fill: dotColor,
+          shadowColor: glowColor,
+          shadowBlur: 10,
+          opacity: 0,
+          offsetPath: motionPath,
+          offsetDistance: startOffset,
+        },
+        this,
+      );
+      if (!dot) continue;
+
+      this.dots.push(dot);
+
+      // Animate dot traveling TOWARD home
+      dot.animate(
+        [
+          { offsetDistance: startOffset, opacity: 0, r: dotRadius * 0.5 },
+          { offsetDistance: startOffset + (endOffset - startOffset) * 0.15, opacity: 0.8, r: dotRadius },
+          { offsetDistance: startOffset + (endOffset - startOffset) * 0.5, opacity: 1, r: dotRadius * 1.2 },
+          { offsetDistance: startOffset + (endOffset - startOffset) * 0.85, opacity: 0.8, r: dotRadius },
+          { offsetDistance: endOffset, opacity: 0, r: dotRadius * 0.5 },
+        ],
+        {
+          duration: baseDuration + i * 100,
+          iterations: Infinity,
+          easing: 'ease-in-out',
+          delay: i * staggerDelay,
+        },
+      );
+    }
+  }
+}
+
+// =============================================================================
+// CUSTOM EDGE: Ant Line (Marching ants dashed line effect)
+// =============================================================================
+class AntLineEdge extends HomeBoundLine {
+  private antAnimation: IAnimation | null = null;
+
+  onCreate() {
+    this.syncAntAnimation();
+  }
+
+  onUpdate() {
+    // Animation continues on the key shape, unless reduced effects were switched on or off
+    this.syncAntAnimation();
+  }
+
+  private syncAntAnimation() {
+    const animated = (this.attributes as { animated?: boolean }).animated !== false;
+
+    if (!animated) {
+      this.antAnimation?.cancel();
+      this.antAnimation = null;
+    } else if (!this.antAnimation) {
+      this.startAntAnimation();
+    }
+  }
+
+  private startAntAnimation() {
+    const keyShape = this.shapeMap.key;
+    if (!keyShape) return;
+
+    const directionToHome = this.getDirectionToHome();
+
+    // Animate TOWARD home system
+    // INVERTED to match moving-dots fix
+    const dashLength = ANT_LINE_DASH[0] + ANT_LINE_DASH[1];
+    const animateTowardTarget = directionToHome === 'target';
+
+    // Animate lineDashOffset for marching effect TOWARD home
+    this.antAnimation = keyShape.animate(
+      animateTowardTarget
+        ? [{ lineDashOffset: 0 }, { lineDashOffset: dashLength }] // Toward target (home direction)
+        : [{ lineDashOffset: dashLength }, { lineDashOffset: 0 }], // Toward source (home direction)
+      {
+        duration: 800,
+        iterations: Infinity,
+        easing: 'linear',
+      },
+    );
+  }
+}
+
+// Both styles are used by the owner dashboard and the shared view; registering again replaces them
+export const registerAnimatedEdges = () => {
+  register(ExtensionCategory.EDGE, 'moving-dots', MovingDotsEdge, true);
+  register(ExtensionCategory.EDGE, 'ant-line', AntLineEdge, true);
+};
@@ -0,0 +1,460 @@
+import { Circle as GCircle, Group, Polygon, Text } from '@antv/g';
+import { Circle, CircleStyleProps, ExtensionCategory, register } from '@antv/g6';
+
+import { KILL_HEAT_MAX } from '@/react/constants/kills';
+import { REMOVED_FADE_DURATION } from '@/react/constants/recentChanges';
+import { isWormholeSpace } from '@/react/utils/isWormholeSpace';
+
+// Decoration drawn around home systems:
+// - 'ring': dotted green ring
+// - 'aura': layered wormhole aura morphing around the node
+// - 'tunnel': rings emerging from the node like a wormhole tunnel
+// - 'none': no decoration
+export type HomeEffect = 'ring' | 'aura' | 'tunnel' | 'none';
+
+export type BreathingCircleOptions = {
+  homeEffect: HomeEffect;
+  // Hexagon ring around systems shared with other maps
+  borderRing: boolean;
+  // Security status, or wormhole class, inside the node
+  securityText: boolean;
+  // Activity badges passed through the `badges` style
+  badges: boolean;
+  // Looping animations; every effect has a static fallback. Views can also turn them off per node
+  // at runtime through the `animated` style, e.g. for reduced effects
+  animations: boolean;
+};
+
+// Owner and shared views look the same unless they register a variant with other options
+export const DEFAULT_BREATHING_CIRCLE_OPTIONS: BreathingCircleOptions = {
+  homeEffect: 'aura',
+  borderRing: true,
+  securityText: true,
+  badges: true,
+  animations: true,
+};
+
+// Node data passed through the node style by the graph config
+type BreathingCircleStyleProps = CircleStyleProps & {
+  security?: string | number;
+  systemClass?: number;
+  isMain?: boolean;
+  isBorder?: boolean;
+  rally?: boolean;
+  killCount?: number;
+  removed?: boolean;
+  animated?: boolean;
+};
+
+const HOME_EFFECT_KEYS: Record<HomeEffect, string[]> = {
+  ring: ['main-indicator-ring'],
+  aura: [0, 1, 2, 3, 4].map(i => `wormhole-aura-${i}`).concat('wormhole-core'),
+  tunnel: [0, 1, 2, 3, 4, 5].map(i => `wormhole-tunnel-${i}`).concat('wormhole-event-horizon', 'wormhole-inner-glow'),
+  none: [],
+};
+
+// Shapes whose animation depends on the animations option and the `animated` style
+const ANIMATED_KEYS = ['border-inner-ring', ...HOME_EFFECT_KEYS.aura, ...HOME_EFFECT_KEYS.tunnel];
+
+// Wormhole aura layers, from outer to inner
+const AURA_LAYERS = [
+  { offset: 18, color: 'rgba(138, 43, 226, 0.6)', width: 8, opacity: 0.15 },
+  { offset: 14, color: 'rgba(75, 0, 130, 0.5)', width: 6, opacity: 0.25 },
+  { offset: 10, color: 'rgba(0, 191, 255, 0.4)', width: 5, opacity: 0.35 },
+  { offset: 6, color: 'rgba(0, 255, 127, 0.3)', width: 4, opacity: 0.45 },
+  { offset: 3, color: 'rgba(255, 20, 147, 0.35)', width: 3, opacity: 0.55 },
+];
+
+const TUNNEL_RINGS = 6;
+const TUNNEL_DURATION = 3000;
+
+const getSecurityColor = (security: string | number) => {
+  if (typeof security !== 'number') return '#FFFFFF';
+  if (security >= 0.7) return '#00BFFF';
+  if (security >= 0.5) return '#90EE90';
+  if (security >= 0.3) return '#FFA500';
+  return '#FF6B6B';
+};
+
+const getHexagonPoints = (radius: number): [number, number][] =>
+  Array.from({ length: 6 }, (_, i) => {
+    const angle = (i * Math.PI) / 3;
+    return [radius * Math.cos(angle), radius * Math.sin(angle)];
+  });
+
+// Shade of the tunnel from bright cyan at the centre to deep purple at the edge
+const getTunnelColor = (progress: number) =>
+  `rgba(${Math.round(100 + 138 * progress)}, ${Math.round(255 - 180 * progress)}, ${Math.round(255 - 30 * progress)}, 1)`;
+
+export const createBreathingCircle = (options: Partial<BreathingCircleOptions> = {}) => {
+  const config: BreathingCircleOptions = { ...DEFAULT_BREATHING_CIRCLE_OPTIONS, ...options };
+
+  return class BreathingCircle extends Circle {
+    // Set once the fade-out animation of a removed system has started
+    declare private isFadingOut?: boolean;
+    // Whether the looping animations were on at the last draw
+    declare private animated?: boolean;
+
+    private get props() {
+      return this.attributes as BreathingCircleStyleProps;
+    }
+
+    onCreate() {
+      this.drawDecorations();
+    }
+
+    onUpdate() {
+      this.drawDecorations();
+    }
+
+    protected drawBadgeShapes(attributes: Required<CircleStyleProps>, container: Group) {
+      super.drawBadgeShapes(config.badges ? attributes : { ...attributes, badges: [] }, container);
+    }
+
+    private get shouldAnimate() {
+      return config.animations && this.props.animated !== false;
+    }
+
+    private drawDecorations() {
+      // Animations only start with a shape, so switching them on or off redraws the animated shapes
+      const animated = this.shouldAnimate;
+      if (this.animated !== undefined && this.animated !== animated) this.removeShapes(ANIMATED_KEYS);
+      this.animated = animated;
+
+      this.createSecurityValueText();
+      this.createBorderIndicator();
+      this.createHomeEffect();
+      this.createRallyIndicator();
+      this.createKillHeat();
+      this.fadeOutIfRemoved();
+    }
+
+    // Creates or updates a sub-shape. Looping animations only start when the shape is first created,
+    // so updates do not stack them
+    private upsertAnimated<T extends GCircle | Polygon>(
+      key: string,
+      // Same constructor type as BaseShape.upsert
+      Ctor: new (...args: any[]) => T,
+      style: T['attributes'],
+      keyframes: Keyframe[],
+      timing: KeyframeAnimationOptions,
+    ) {
+      const isNew = !this.shapeMap[key];
+      const shape = this.upsert(key, Ctor, style, this);
+      if (isNew && shape && this.shouldAnimate) {
+        shape.animate(keyframes, { iterations: Infinity, ...timing });
+      }
+      return shape;
+    }
+
+    private removeShapes(keys: string[]) {
+      for (const key of keys) {
+        this.upsert(key, GCircle, false, this);
+      }
+    }
+
+    createSecurityValueText() {
+      const { security, systemClass } = this.props;
+
+      if (!config.securityText || security === undefined || security === null) {
+        this.upsert('security-value-text', Text, false, this);
+        return;
+      }
+
+      const securityText =
+        systemClass !== undefined && isWormholeSpace(systemClass)
+          ? `C${systemClass}`
+          : typeof security === 'number'
+            ? security.toFixed(1)
+            : String(security);
+
+      this.upsert(
+        'security-value-text',
+        Text,
+        {
+          x: 0,
+          y: 0,
+          text: securityText,
+          fontSize: 8,
+          fontWeight: 'normal',
+          fill: getSecurityColor(security),
+          textAlign: 'center',
+          textBaseline: 'middle',
+          fontFamily: 'Arial, sans-serif',
+        },
+        this,
+      );
+    }
+
+    createBorderIndicator() {
+      const { isBorder, size = 50 } = this.props as { isBorder?: boolean; size?: number };
+
+      if (!config.borderRing || !isBorder) {
+        this.upsert('border-inner-ring', Polygon, false, this);
+        return;
+      }
+
+      this.upsertAnimated(
+        'border-inner-ring',
+        Polygon,
+        {
+          points: getHexagonPoints(size / 1.5 + 4),
+          fill: 'transparent',
+          stroke: 'rgba(255, 165, 0, 0.9)',
+          strokeWidth: 1.5,
+          strokeOpacity: 0.6,
+        },
+        [
+          { strokeOpacity: 0.6, strokeWidth: 1.5 },
+          { strokeOpacity: 0.3, strokeWidth: 2 },
+        ],
+        { duration: 1500, direction: 'alternate', easing: 'ease-in-out', delay: 750 },
+      );
+    }
+
+    createHomeEffect() {
+      const { isMain, size = 20 } = this.props as { isMain?: boolean; size?: number };
+
+      // Drop the shapes of every other effect, and all of them once the system is no longer home
+      for (const [effect, keys] of Object.entries(HOME_EFFECT_KEYS)) {
+        if (!isMain || effect !== config.homeEffect) this.removeShapes(keys);
+      }
+      if (!isMain) return;
+
+      const baseRadius = size / 2;
+
+      switch (config.homeEffect) {
+        case 'ring':
+          this.upsert(
+            'main-indicator-ring',
+            GCircle,
+            {
+              cx: 0,
+              cy: 0,
+              r: baseRadius + 3,
+              fill: 'transparent',
+              stroke: '#00f705',
+              lineWidth: 1,
+              lineDash: [1, 5],
+              strokeOpacity: 0.9,
+            },
+            this,
+          );
+          break;
+        case 'aura':
+          this.createAura(baseRadius);
+          break;
+        case 'tunnel':
+          this.createTunnel(baseRadius);
+          break;
+      }
+    }
+
+    private createAura(baseRadius: number) {
+      // Layers breathe at slightly different speeds and phases, which makes the aura morph
+      AURA_LAYERS.forEach((layer, i) => {
+        const r = baseRadius + layer.offset;
+        this.upsertAnimated(
+          `wormhole-aura-${i}`,
+          GCircle,
+          {
+            cx: 0,
+            cy: 0,
+            r,
+            fill: 'transparent',
+            stroke: layer.color,
+            lineWidth: layer.width,
+            strokeOpacity: layer.opacity,
+          },
+          [
+            { r, strokeOpacity: layer.opacity, lineWidth: layer.width },
+            { r: r + 4 - i * 0.5, strokeOpacity: layer.opacity * 0.4, lineWidth: layer.width + 3 },
+            { r: r - 2 + i * 0.3, strokeOpacity: layer.opacity * 1.3, lineWidth: layer.width - 1 },
+            { r, strokeOpacity: layer.opacity, lineWidth: layer.width },
+          ],
+          { duration: 3000 + i * 300, easing: 'ease-in-out', delay: i * 400 },
+        );
+      });
+
+      // Central bright ring
+      this.upsertAnimated(
+        'wormhole-core',
+        GCircle,
+        {
+          cx: 0,
+          cy: 0,
+          r: baseRadius + 1,
+          fill: 'transparent',
+          stroke: 'rgba(255, 255, 255, 0.8)',
+          lineWidth: 2,
+          strokeOpacity: 0.7,
+        },
+        [
+          { strokeOpacity: 0.7, lineWidth: 2, stroke: 'rgba(255, 255, 255, 0.8)' },
+          { strokeOpacity: 0.4, lineWidth: 3, stroke: 'rgba(200, 220, 255, 0.6)' },
+          { strokeOpacity: 0.9, lineWidth: 1.5, stroke: 'rgba(255, 255, 255, 0.9)' },
+          { strokeOpacity: 0.7, lineWidth: 2, stroke: 'rgba(255, 255, 255, 0.8)' },
+        ],
+        { duration: 2500, easing: 'ease-in-out' },
+      );
+    }
+
+    private createTunnel(baseRadius: number) {
+      const startRadius = baseRadius + 2;
+
+      // Rings spawn at the node, expand and fade out. Without animations they sit at fixed depths instead
+      for (let i = 0; i < TUNNEL_RINGS; i++) {
+        const staticStyle = this.shouldAnimate
+          ? { r: startRadius, stroke: getTunnelColor(0), lineWidth: 3, strokeOpacity: 0 }
+          : {
+              r: baseRadius + 4 + i * 4,
+              stroke: getTunnelColor(i / TUNNEL_RINGS),
+              lineWidth: 2,
+              strokeOpacity: 0.3 - i * 0.04,
+            };
+
+        this.upsertAnimated(
+          `wormhole-tunnel-${i}`,
+          GCircle,
+          { cx: 0, cy: 0, fill: 'transparent', ...staticStyle },
+          [
+            { r: startRadius, strokeOpacity: 0, lineWidth: 1, stroke: 'rgba(255, 255, 255, 0.9)' },
+            { r: baseRadius + 6, strokeOpacity: 0.8, lineWidth: 2.5, stroke: 'rgba(150, 255, 255, 0.9)' },
+            { r: baseRadius + 12, strokeOpacity: 0.6, lineWidth: 3, stroke: 'rgba(100, 200, 255, 0.8)' },
+            { r: baseRadius + 18, strokeOpacity: 0.35, lineWidth: 4, stroke: 'rgba(138, 100, 226, 0.6)' },
+            { r: baseRadius + 25, strokeOpacity: 0, lineWidth: 5, stroke: 'rgba(75, 0, 130, 0.3)' },
+          ],
+          { duration: TUNNEL_DURATION, easing: 'ease-out', delay: (i / TUNNEL_RINGS) * TUNNEL_DURATION },
+        );
+      }
+
+      // Event horizon, the edge of the portal
+      this.upsertAnimated(
+        'wormhole-event-horizon',
+        GCircle,
+        {
+          cx: 0,
+          cy: 0,
+          r: baseRadius + 1,
+          fill: 'transparent',
+          stroke: 'rgba(200, 255, 255, 0.9)',
+          lineWidth: 2,
+          strokeOpacity: 0.8,
+        },
+        [
+          { strokeOpacity: 0.8, lineWidth: 2, stroke: 'rgba(200, 255, 255, 0.9)' },
+          { strokeOpacity: 0.5, lineWidth: 3, stroke: 'rgba(255, 255, 255, 1)' },
+          { strokeOpacity: 0.9, lineWidth: 1.5, stroke: 'rgba(150, 255, 200, 0.95)' },
+          { strokeOpacity: 0.8, lineWidth: 2, stroke: 'rgba(200, 255, 255, 0.9)' },
+        ],
+        { duration: 1500, easing: 'ease-in-out' },
+      );
+
+      // Inner glow, looking into the tunnel
+      this.upsertAnimated(
+        'wormhole-inner-glow',
+        GCircle,
+        {
+          cx: 0,
+          cy: 0,
+          r: baseRadius - 2,
+          fill: 'rgba(150, 255, 255, 0.1)',
+          stroke: 'transparent',
+          fillOpacity: 0.15,
+        },
+        [
+          { fillOpacity: 0.15, r: baseRadius - 2 },
+          { fillOpacity: 0.25, r: baseRadius - 1 },
+          { fillOpacity: 0.1, r: baseRadius - 3 },
+          { fillOpacity: 0.15, r: baseRadius - 2 },
+        ],
+        { duration: 2000, easing: 'ease-in-out', delay: 500 },
+      );
+    }
+
+    createRallyIndicator() {
+      const { rally, size = 20 } = this.props as { rally?: boolean; size?: number };
+
+      if (!rally) {
+        // Passing false removes the marker once the rally point is gone
+        this.upsert('rally-marker', GCircle, false, this);
+        return;
+      }
+
+      const isNew = !this.shapeMap['rally-marker'];
+
+      const marker = this.upsert(
+        'rally-marker',
+        GCircle,
+        {
+          cx: 0,
+          cy: 0,
+          r: size / 2 + 6,
+          fill: 'transparent',
+          stroke: '#ff3b3b',
+          lineWidth: 2,
+          strokeOpacity: 0.9,
+        },
+        this,
+      );
+
+      // Unlike the decorative effects the pulse ignores the animations option and reduced effects: a rally point has to catch the eye
+      if (isNew && marker) {
+        marker.animate(
+          [
+            { r: size / 2 + 4, strokeOpacity: 0.9 },
+            { r: size / 2 + 14, strokeOpacity: 0 },
+          ],
+          {
+            duration: 1200,
+            iterations: Infinity,
+            easing: 'ease-out',
+          },
+        );
+      }
+    }
+
+    createKillHeat() {
+      const { killCount = 0, size = 20 } = this.props as { killCount?: number; size?: number };
+
+      if (killCount <= 0) {
+        this.upsert('kill-heat', GCircle, false, this);
+        return;
+      }
+
+      // Radius and opacity grow with the number of kills, capped at KILL_HEAT_MAX
+      const heat = Math.min(killCount, KILL_HEAT_MAX) / KILL_HEAT_MAX;
+      this.upsert(
+        'kill-heat',
+        GCircle,
+        {
+          cx: 0,
+          cy: 0,
+          r: size / 2 + 6 + heat * 18,
+          fill: '#ff2d2d',
+          fillOpacity: 0.15 + heat * 0.35,
+          lineWidth: 0,
+          zIndex: -1,
+        },
+        this,
+      );
+    }
+
+    fadeOutIfRemoved() {
+      // The node is kept for REMOVED_FADE_DURATION after it disappeared from the map, fade it over that time
+      if (!this.props.removed || this.isFadingOut) return;
+
+      this.isFadingOut = true;
+      this.animate([{ opacity: 1 }, { opacity: 0.1 }], {
+        duration: REMOVED_FADE_DURATION,
+        fill: 'forwards',
+        easing: 'linear',
+      });
+    }
+  };
+};
+
+// Registers a variant under its own node type; registering the same type again replaces it
+export const registerBreathingCircle = (type: string, options?: Partial<BreathingCircleOptions>) => {
+  register(ExtensionCategory.NODE, type, createBreathingCircle(options), true);
+};
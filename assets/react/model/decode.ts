@@ -0,0 +1,117 @@
+// Minimal runtime decoders for LiveView props.
+// A decoder either returns a typed value or throws a DecodeError that names
+// the offending path, e.g. `map_cached_data["abc"].systems[3].position_x`.
+
+export class DecodeError extends Error {
+  path: string;
+  expected: string;
+  received: unknown;
+
+  constructor(path: string, expected: string, received: unknown) {
+    super(`${path}: expected ${expected}, got ${describe(received)}`);
+    this.name = 'DecodeError';
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+export type Decoder<T> = (value: unknown, path: string) => T;
+
+export type DecodeResult<T> = { ok: true; value: T } | { ok: false; error: DecodeError };
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (value === undefined) return 'undefined';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string (${JSON.stringify(value.slice(0, 40))})`;
+  if (typeof value === 'number' || typeof value === 'boolean') return `${typeof value} (${value})`;
+  return typeof value;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const string: Decoder<string> = (value, path) => {
+  if (typeof value !== 'string') throw new DecodeError(path, 'string', value);
+  return value;
+};
+
+export const number: Decoder<number> = (value, path) => {
+  if (typeof value !== 'number' || Number.isNaN(value)) throw new DecodeError(path, 'number', value);
+  return value;
+};
+
+export const boolean: Decoder<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw new DecodeError(path, 'boolean', value);
+  return value;
+};
+
+export const nullable =
+  <T>(decoder: Decoder<T>): Decoder<T | null> =>
+  (value, path) =>
+    value === null || value === undefined ? null : decoder(value, path);
+
+// Absent and null both decode to undefined
+export const optional =
+  <T>(decoder: Decoder<T>): Decoder<T | undefined> =>
+  (value, path) =>
+    value === null || value === undefined ? undefined : decoder(value, path);
+
+export const withDefault =
+  <T>(decoder: Decoder<T>, fallback: T): Decoder<T> =>
+  (value, path) =>
+    value === null || value === undefined ? fallback : decoder(value, path);
+
+export const array =
+  <T>(decoder: Decoder<T>): Decoder<T[]> =>
+  (value, path) => {
+    if (!Array.isArray(value)) throw new DecodeError(path, 'array', value);
+    return value.map((item, index) => decoder(item, `${path}[${index}]`));
+  };
+
+export const record =
+  <T>(decoder: Decoder<T>): Decoder<Record<string, T>> =>
+  (value, path) => {
+    if (!isObject(value)) throw new DecodeError(path, 'object', value);
+    return Object.keys(value).reduce<Record<string, T>>((acc, key) => {
+      acc[key] = decoder(value[key], `${path}[${JSON.stringify(key)}]`);
+      return acc;
+    }, {});
+  };
+
+type Fields<T> = { [K in keyof T]-?: Decoder<T[K]> };
+
+// Decodes the listed fields and keeps any other keys of the payload untouched,
+// so server-side additions do not break older clients.
+export const object =
+  <T>(fields: Fields<T>): Decoder<T> =>
+  (value, path) => {
+    if (!isObject(value)) throw new DecodeError(path, 'object', value);
+    const result: Record<string, unknown> = { ...value };
+    for (const key of Object.keys(fields) as (keyof T & string)[]) {
+      const decoded = fields[key](value[key], `${path}.${key}`);
+      if (decoded === undefined) {
+        delete result[key];
+      } else {
+        result[key] = decoded;
+      }
+    }
+    return result as T;
+  };
+
+export const decode = <T>(decoder: Decoder<T>, value: unknown, path: string): DecodeResult<T> => {
+  try {
+    return { ok: true, value: decoder(value, path) };
+  } catch (error) {
+    if (error instanceof DecodeError) return { ok: false, error };
+    throw error;
+  }
+};
+
+export const firstError = (...results: DecodeResult<unknown>[]): DecodeError | null => {
+  for (const result of results) {
+    if (!result.ok) return result.error;
+  }
+  return null;
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import { connection, system } from '@/react/test/payload';
+
+import { decodeMapCachedData, decodeMaps } from './decoders';
+
+describe('decodeMaps', () => {
+  it('fills in the defaults of optional map fields', () => {
+    const result = decodeMaps([{ id: 'main', title: 'Main', main_system_eve_id: null, started: null }]);
+
+    expect(result).toEqual({
+      ok: true,
+      value: [{ id: 'main', title: 'Main', color: '#0a84ff', is_main: false, main_system_eve_id: null, started: null }],
+    });
+  });
+
+  it('treats a missing list as no maps', () => {
+    expect(decodeMaps(null)).toEqual({ ok: true, value: [] });
+  });
+
+  it('names the path of an invalid field', () => {
+    const result = decodeMaps([{ id: 'main', title: 42 }]);
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error.path).toBe('data[0].title');
+    expect(!result.ok && result.error.message).toBe('data[0].title: expected string, got number (42)');
+  });
+});
+
+describe('decodeMapCachedData', () => {
+  it('keeps payload systems and connections and defaults the missing lists', () => {
+    const payload = {
+      main: { systems: [system(1, 'main', { home: true })], connections: [connection(1, 2)] },
+      empty: null,
+    };
+    const result = decodeMapCachedData(payload);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.main?.systems[0]).toMatchObject({ solar_system_id: 1, status: 1, is_border: false });
+    expect(result.value.main?.shared_systems).toEqual([]);
+    expect(result.value.main?.connections).toHaveLength(1);
+    expect(result.value.empty).toBeNull();
+  });
+
+  it('drops absent optional fields and keeps unknown ones', () => {
+    const result = decodeMapCachedData({
+      main: { systems: [{ ...system(1, 'main'), activity: null, extra: 'kept' }] },
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.main?.systems[0]).not.toHaveProperty('activity');
+    expect(result.value.main?.systems[0]).toHaveProperty('extra', 'kept');
+  });
+
+  it('names the path of an invalid system', () => {
+    const result = decodeMapCachedData({ main: { systems: [{ ...system(1, 'main'), position_x: 'left' }] } });
+
+    expect(!result.ok && result.error.path).toBe('map_cached_data["main"].systems[0].position_x');
+  });
+});
@@ -0,0 +1,151 @@
+import {
+  array,
+  boolean,
+  decode,
+  Decoder,
+  DecodeResult,
+  nullable,
+  number,
+  object,
+  optional,
+  record,
+  string,
+  withDefault,
+} from './decode';
+import {
+  LicenseState,
+  Map,
+  MapCachedData,
+  MapConnection,
+  MapData,
+  MapSystem,
+  ShareLink,
+  StaticInfo,
+  SystemActivity,
+} from './types';
+
+// Colour of maps created without one, same blue the setup graph falls back to
+const DEFAULT_MAP_COLOR = '#0a84ff';
+
+export const mapDecoder: Decoder<Map> = object<Map>({
+  id: string,
+  title: string,
+  color: withDefault(string, DEFAULT_MAP_COLOR),
+  is_main: withDefault(boolean, false),
+  main_system_eve_id: nullable(number),
+  started: nullable(boolean),
+});
+
+export const staticInfoDecoder: Decoder<StaticInfo> = object<StaticInfo>({
+  solar_system_id: number,
+  solar_system_name: string,
+  system_class: number,
+  security: withDefault(string, ''),
+  region_id: optional(number),
+  region_name: optional(string),
+  constellation_id: optional(number),
+  constellation_name: optional(string),
+  class_title: optional(string),
+  type_description: optional(string),
+  is_shattered: optional(boolean),
+  effect_name: optional(string),
+  effect_power: optional(number),
+  statics: optional(array(string)),
+  wandering: optional(array(string)),
+  triglavian_invasion_status: optional(string),
+  sun_type_id: optional(number),
+});
+
+export const systemActivityDecoder: Decoder<SystemActivity> = object<SystemActivity>({
+  signatures: withDefault(number, 0),
+  unscanned_signatures: withDefault(number, 0),
+  pilots: withDefault(number, 0),
+  rally: withDefault(boolean, false),
+  kills: withDefault(array(number), []),
+});
+
+export const mapSystemDecoder: Decoder<MapSystem> = object<MapSystem>({
+  solar_system_id: number,
+  map_id: string,
+  name: string,
+  status: withDefault(number, 0),
+  position_x: withDefault(number, 0),
+  position_y: withDefault(number, 0),
+  id: optional(string),
+  original_name: nullable(string),
+  temporary_name: nullable(string),
+  custom_name: nullable(string),
+  description: nullable(string),
+  labels: nullable(string),
+  tag: nullable(string),
+  visible: optional(boolean),
+  locked: optional(boolean),
+  inserted_at: optional(string),
+  updated_at: optional(string),
+  is_border: withDefault(boolean, false),
+  border_maps: withDefault(array(string), []),
+  activity: optional(systemActivityDecoder),
+  static_info: nullable(staticInfoDecoder),
+});
+
+export const mapConnectionDecoder: Decoder<MapConnection> = object<MapConnection>({
+  solar_system_source: number,
+  solar_system_target: number,
+  id: optional(string),
+  map_id: optional(string),
+  type: optional(number),
+  mass_status: optional(number),
+  time_status: optional(number),
+  ship_size_type: optional(number),
+  wormhole_type: nullable(string),
+  locked: optional(boolean),
+  inserted_at: optional(string),
+  updated_at: optional(string),
+});
+
+export const mapDataDecoder: Decoder<MapData> = object<MapData>({
+  systems: withDefault(array(mapSystemDecoder), []),
+  shared_systems: withDefault(array(mapSystemDecoder), []),
+  connections: withDefault(array(mapConnectionDecoder), []),
+});
+
+export const mapCachedDataDecoder: Decoder<MapCachedData> = withDefault(record(nullable(mapDataDecoder)), {});
+
+export const licenseStateDecoder: Decoder<LicenseState | null> = nullable(
+  object<LicenseState>({
+    valid: withDefault(boolean, false),
+    bot_assigned: withDefault(boolean, false),
+    error_message: nullable(string),
+  }),
+);
+
+export const shareLinkDecoder: Decoder<ShareLink> = object<ShareLink>({
+  id: string,
+  token: string,
+  expires_at: string,
+  label: nullable(string),
+  url: string,
+  is_expired: withDefault(boolean, false),
+  is_snapshot: withDefault(boolean, false),
+  snapshot_at: nullable(string),
+  has_password: withDefault(boolean, false),
+  description: nullable(string),
+  edge_style: nullable(string),
+});
+
+export const decodeMaps = (value: unknown, path = 'data'): DecodeResult<Map[]> =>
+  decode(withDefault(array(mapDecoder), []), value, path);
+
+export const decodeMap = (value: unknown, path = 'map'): DecodeResult<Map> => decode(mapDecoder, value, path);
+
+export const decodeMapCachedData = (value: unknown, path = 'map_cached_data'): DecodeResult<MapCachedData> =>
+  decode(mapCachedDataDecoder, value, path);
+
+export const decodeLicenseState = (value: unknown, path = 'license_state'): DecodeResult<LicenseState | null> =>
+  decode(licenseStateDecoder, value, path);
+
+export const decodeShareLinks = (value: unknown, path = 'links'): DecodeResult<ShareLink[]> =>
+  decode(withDefault(array(shareLinkDecoder), []), value, path);
+
+export const decodeShareLink = (value: unknown, path = 'link'): DecodeResult<ShareLink> =>
+  decode(shareLinkDecoder, value, path);
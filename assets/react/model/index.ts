@@ -0,0 +1,3 @@
+export * from './decode';
+export * from './decoders';
+export * from './types';
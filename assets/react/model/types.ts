@@ -0,0 +1,188 @@
+// Shapes of the data pushed by the LiveViews (DashboardLive, SharedMapLive).
+// Field names mirror the server payload, so they stay snake_case.
+
+export interface Map {
+  id: string;
+  title: string;
+  // Optional on the server, maps without one get a default colour when decoded
+  color: string;
+  is_main: boolean;
+  main_system_eve_id: number | null;
+  started: boolean | null;
+}
+
+// Static system info attached by WandererOps.CachedInfo (loaded by EveDataService)
+export interface StaticInfo {
+  solar_system_id: number;
+  solar_system_name: string;
+  system_class: number;
+  // Security is pre-formatted on the server, e.g. "0.5" or "-0.3"; wormhole systems carry their true-sec, "-1.0"
+  security: string;
+  region_id?: number;
+  region_name?: string;
+  constellation_id?: number;
+  constellation_name?: string;
+  class_title?: string;
+  type_description?: string;
+  is_shattered?: boolean;
+  effect_name?: string;
+  effect_power?: number;
+  statics?: string[];
+  wandering?: string[];
+  triglavian_invasion_status?: string;
+  sun_type_id?: number;
+}
+
+// Signature, pilot and rally counters forwarded from the map SSE events
+export interface SystemActivity {
+  signatures: number;
+  unscanned_signatures: number;
+  pilots: number;
+  rally: boolean;
+  // Kill times in unix seconds, at most 24h old
+  kills: number[];
+}
+
+export interface MapSystem {
+  solar_system_id: number;
+  map_id: string;
+  name: string;
+  // 1 marks the home system of the source map
+  status: number;
+  position_x: number;
+  position_y: number;
+  id?: string;
+  original_name?: string | null;
+  temporary_name?: string | null;
+  custom_name?: string | null;
+  description?: string | null;
+  labels?: string | null;
+  tag?: string | null;
+  visible?: boolean;
+  locked?: boolean;
+  inserted_at?: string;
+  updated_at?: string;
+  is_border?: boolean;
+  border_maps?: string[];
+  activity?: SystemActivity;
+  static_info: StaticInfo | null;
+}
+
+export interface MapConnection {
+  solar_system_source: number;
+  solar_system_target: number;
+  id?: string;
+  map_id?: string;
+  type?: number;
+  mass_status?: number;
+  time_status?: number;
+  ship_size_type?: number;
+  wormhole_type?: string | null;
+  locked?: boolean;
+  inserted_at?: string;
+  updated_at?: string;
+}
+
+export interface MapData {
+  systems: MapSystem[];
+  // This map's copies of systems already sent with an earlier map (border systems), in its own coordinates
+  shared_systems: MapSystem[];
+  connections: MapConnection[];
+}
+
+// Keyed by map id; a map that has not been loaded yet has no data
+export type MapCachedData = Record<string, MapData | null>;
+
+export interface LicenseState {
+  valid: boolean;
+  bot_assigned: boolean;
+  error_message?: string | null;
+}
+
+export interface ShareLink {
+  id: string;
+  token: string;
+  expires_at: string;
+  label: string | null;
+  url: string;
+  is_expired: boolean;
+  is_snapshot: boolean;
+  snapshot_at: string | null;
+  has_password: boolean;
+  description: string | null;
+  // Edge style viewers of the link start with
+  edge_style: string | null;
+}
+
+// Graph elements built from the model for G6
+
+export interface SystemNodeData {
+  name: string;
+  temporaryName: string | null;
+  customName: string | null;
+  systemEveId: number;
+  mapId: string;
+  nodeType: string;
+  bgFill: string;
+  systemClass: number | undefined;
+  security: string | undefined;
+  isMain: boolean;
+  isBorder: boolean;
+  borderMaps: string[];
+  isShattered: boolean;
+  signatures: number;
+  unscannedSignatures: number;
+  pilots: number;
+  rally: boolean;
+  kills: number[];
+  // Set on the summary node standing in for a collapsed map
+  collapsed?: boolean;
+  memberCount?: number;
+  [key: string]: unknown;
+}
+
+export type SystemNode = {
+  id: string;
+  style: { x: number; y: number };
+  data: SystemNodeData;
+  // G6 element states (e.g. highlighted route)
+  states?: string[];
+};
+
+export interface ConnectionEdgeData {
+  name: string;
+  massStatus: number;
+  timeStatus: number;
+  shipSizeType: number;
+  wormholeType: string | null;
+  // End of the connection closer to the traffic home
+  directionToHome?: 'source' | 'target';
+  [key: string]: unknown;
+}
+
+export type ConnectionEdge = {
+  id: string;
+  source: string;
+  target: string;
+  data: ConnectionEdgeData;
+  states?: string[];
+};
+
+export type MapNode = {
+  id: string;
+  data: {
+    name: string;
+    color: string;
+    isMain: boolean;
+    order: number;
+  };
+};
+
+export type MapEdge = {
+  id: string;
+  source: string;
+  target: string;
+  data: {
+    name: string;
+  };
+};
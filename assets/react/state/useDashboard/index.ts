@@ -20,6 +20,27 @@ export const [
   useMarkMapAsMain,
   useSetupVisible,
   useShowSetup,
+  useConnectionLabelsVisible,
+  useShowConnectionLabels,
+  useViewPreferences,
+  useUpdateViewPreferences,
+  useGetSystemUrl,
+  useMapData,
+  useActivityFeed,
+  useClearActivityFeed,
+  useRecentChanges,
+  useHistory,
+  usePlaybackIndex,
+  useSeekHistory,
+  useToggleMapVisible,
+  useSoloMap,
+  useToggleMapCollapsed,
+  useEffects,
+  useSetEffectsMode,
+  useEdgeStyle,
+  useSetEdgeStyle,
+  useTrafficHomeIds,
+  useSetTrafficHome,
 ] = constate(
   useDashboard,
   value => value,
@@ -38,4 +59,25 @@ export const [
   value => value.markMapAsMain,
   value => value.setupVisible,
   value => value.showSetup,
+  value => value.connectionLabelsVisible,
+  value => value.showConnectionLabels,
+  value => value.viewPreferences,
+  value => value.updateViewPreferences,
+  value => value.getSystemUrl,
+  value => value.mapData,
+  value => value.activityFeed,
+  value => value.clearActivityFeed,
+  value => value.recentChanges,
+  value => value.history,
+  value => value.playbackIndex,
+  value => value.seekHistory,
+  value => value.toggleMapVisible,
+  value => value.soloMap,
+  value => value.toggleMapCollapsed,
+  value => value.effects,
+  value => value.setEffectsMode,
+  value => value.edgeStyle,
+  value => value.setEdgeStyle,
+  value => value.trafficHomeIds,
+  value => value.setTrafficHome,
 );
@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { MapCachedData } from '@/react/model';
+import { ActivityEntry, diffMapCachedData } from '@/react/utils/activityFeed';
+
+// Older entries are dropped once the feed grows past this
+const MAX_ENTRIES = 100;
+
+const useActivityFeed = (mapCachedData: MapCachedData) => {
+  const [activityFeed, setActivityFeed] = useState<ActivityEntry[]>([]);
+  const previousRef = useRef<MapCachedData>({});
+
+  useEffect(() => {
+    const entries = diffMapCachedData(previousRef.current, mapCachedData, Date.now());
+    previousRef.current = mapCachedData;
+
+    if (entries.length) {
+      setActivityFeed(prev => [...entries, ...prev].slice(0, MAX_ENTRIES));
+    }
+  }, [mapCachedData]);
+
+  const clearActivityFeed = useCallback(() => {
+    setActivityFeed([]);
+  }, []);
+
+  return { activityFeed, clearActivityFeed };
+};
+
+export default useActivityFeed;
@@ -2,39 +2,81 @@ import { useCallback, useEffect, useMemo } from 'react';
 import parseInt from '@antv/util/lib/lodash/to-integer';
 import useStateRef from 'react-usestateref';
 
+import { EdgeStyle } from '@/react/constants/edgeStyles';
+import { EffectsMode } from '@/react/constants/effects';
 import { ServerEvent } from '@/react/constants/serverEvent';
+import { useEdgeStylePreference } from '@/react/hooks/useEdgeStylePreference';
+import { Effects, useEffectsMode } from '@/react/hooks/useEffectsMode';
 import { usePushEventAsync } from '@/react/hooks/usePushEventAsync';
+import {
+  ConnectionEdge,
+  LicenseState,
+  Map as MapInfo,
+  MapCachedData,
+  MapConnection,
+  MapEdge,
+  MapNode,
+  SystemNode,
+} from '@/react/model';
+import { ActivityEntry } from '@/react/utils/activityFeed';
 
+import useActivityFeed from './useActivityFeed';
 import useEdges from './useEdges';
+import useHistory, { HistorySnapshot } from './useHistory';
 import useMapEdges from './useMapEdges';
 import useMapNodes from './useMapNodes';
 import useNodes from './useNodes';
+import useRecentChanges, { RecentChanges } from './useRecentChanges';
+import useTrafficDirections from './useTrafficDirections';
+import useViewPreferences, { ViewPreferences } from './useViewPreferences';
 
 type UseDashboardProps = {
-  serverMaps: any[];
-  mapCachedData: Record<string, any>;
-  licenseState: Record<string, any>;
+  serverMaps: MapInfo[];
+  mapCachedData: MapCachedData;
+  licenseState: LicenseState | null;
   pushEvent?: (event: string, payload: any, callback?: (reply: any) => void) => void;
+  // Edge style until the viewer picks one; share links carry the one chosen by their creator
+  defaultEdgeStyle?: EdgeStyle;
 };
 
 type DashboardContext = {
   setupVisible: boolean;
-  maps: any[];
-  nodes: any[];
-  mapNodes: any[];
-  edges: any[];
-  mapEdges: any[];
-  mapData: Record<string, any>;
-  mapLicenseState: Record<string, any>;
+  connectionLabelsVisible: boolean;
+  maps: MapInfo[];
+  nodes: SystemNode[];
+  mapNodes: MapNode[];
+  edges: ConnectionEdge[];
+  mapEdges: MapEdge[];
+  mapData: MapCachedData;
+  mapLicenseState: LicenseState | null;
+  viewPreferences: ViewPreferences;
+  effects: Effects;
+  edgeStyle: EdgeStyle;
+  trafficHomeIds: string[];
+  activityFeed: ActivityEntry[];
+  recentChanges: RecentChanges;
+  history: HistorySnapshot[];
+  playbackIndex: number | null;
   pushEvent: (event: string, payload: any, callback?: (reply: any) => void) => void;
 
   showSetup: (show: boolean) => void;
+  showConnectionLabels: (show: boolean) => void;
+  updateViewPreferences: (update: Partial<ViewPreferences>) => void;
+  setEffectsMode: (mode: EffectsMode) => void;
+  setEdgeStyle: (edgeStyle: EdgeStyle) => void;
+  setTrafficHome: (nodeId: string | null) => void;
   editMap: (mapId: string) => Promise<void>;
   startMap: (mapId: string) => Promise<void>;
   stopMap: (mapId: string) => Promise<void>;
   removeMap: (mapId: string) => Promise<void>;
   markAsMain: (systemId: string) => Promise<void>;
   markMapAsMain: (mapId: string) => Promise<void>;
+  getSystemUrl: (systemId: string) => Promise<string | null>;
+  clearActivityFeed: () => void;
+  seekHistory: (index: number | null) => void;
+  toggleMapVisible: (mapId: string) => void;
+  soloMap: (mapId: string) => void;
+  toggleMapCollapsed: (mapId: string) => void;
 };
 
 export const useDashboard = ({
@@ -42,30 +84,79 @@ export const useDashboard = ({
   mapCachedData,
   licenseState,
   pushEvent = () => {},
+  defaultEdgeStyle = 'line',
 }: UseDashboardProps): DashboardContext => {
   const [showSetup, setShowSetup] = useStateRef<boolean>(false);
-  const [maps, setMaps] = useStateRef<any[]>(serverMaps);
-  const [mapData, setMapData] = useStateRef<Record<string, any>>({});
-  const [mapLicenseState, setMapLicenseState] = useStateRef<Record<string, any>>({});
+  const [connectionLabelsVisible, setConnectionLabelsVisible] = useStateRef<boolean>(false);
+  const [maps, setMaps] = useStateRef<MapInfo[]>(serverMaps);
+  const [mapData, setMapData] = useStateRef<MapCachedData>({});
+  const [mapLicenseState, setMapLicenseState] = useStateRef<LicenseState | null>(null);
 
   const pushEventAsync = usePushEventAsync({ pushEvent });
 
-  const systems = useMemo(() => {
-    return maps.reduce((acc, map) => {
-      if (!mapData[map.id]) return acc;
-      return acc.concat(mapData[map.id].systems);
-    }, []);
-  }, [mapData, maps]);
+  const { history, playbackIndex, playbackData, seekHistory } = useHistory(mapData);
+
+  // While replaying history the graph is built from the replayed snapshot instead of the live data
+  const displayedData = playbackData ?? mapData;
+
+  const { viewPreferences, updateViewPreferences } = useViewPreferences(maps);
+  const { effects, setEffectsMode } = useEffectsMode();
+  const { edgeStyle, setEdgeStyle } = useEdgeStylePreference(defaultEdgeStyle);
+  const { hiddenMaps, collapsedMaps } = viewPreferences;
 
   const connections = useMemo(() => {
-    return maps.reduce((acc, map) => {
-      if (!mapData[map.id]) return acc;
-      return acc.concat(mapData[map.id].connections);
+    return maps.reduce<MapConnection[]>((acc, map) => {
+      const data = displayedData[map.id];
+      if (!data || hiddenMaps.includes(map.id)) return acc;
+      return acc.concat(data.connections);
     }, []);
-  }, [mapData, maps]);
+  }, [displayedData, maps, hiddenMaps]);
+
+  const { nodes } = useNodes(displayedData, maps, hiddenMaps);
+  const connectionEdges = useEdges(connections, connectionLabelsVisible);
+  const recentChanges = useRecentChanges(nodes, connectionEdges, playbackIndex === null);
+  const { trafficHomeIds, edges } = useTrafficDirections(nodes, connectionEdges, maps, viewPreferences.trafficHomeId);
+
+  // Clicking a header map chip shows / hides that map; soloing hides every other map, or shows all again
+  // when the map is already the only one visible
+  const toggleMapVisible = useCallback(
+    (mapId: string) => {
+      updateViewPreferences({
+        hiddenMaps: hiddenMaps.includes(mapId) ? hiddenMaps.filter(id => id !== mapId) : [...hiddenMaps, mapId],
+      });
+    },
+    [hiddenMaps, updateViewPreferences],
+  );
+
+  const soloMap = useCallback(
+    (mapId: string) => {
+      const others = maps.filter(m => m.id !== mapId).map(m => m.id);
+      const isSolo = !hiddenMaps.includes(mapId) && others.every(id => hiddenMaps.includes(id));
+      updateViewPreferences({ hiddenMaps: isSolo ? [] : others });
+    },
+    [maps, hiddenMaps, updateViewPreferences],
+  );
+
+  const toggleMapCollapsed = useCallback(
+    (mapId: string) => {
+      updateViewPreferences({
+        collapsedMaps: collapsedMaps.includes(mapId)
+          ? collapsedMaps.filter(id => id !== mapId)
+          : [...collapsedMaps, mapId],
+      });
+    },
+    [collapsedMaps, updateViewPreferences],
+  );
+
+  // Picking the current traffic home again, or null, goes back to the map homes
+  const setTrafficHome = useCallback(
+    (nodeId: string | null) => {
+      updateViewPreferences({ trafficHomeId: nodeId === viewPreferences.trafficHomeId ? null : nodeId });
+    },
+    [viewPreferences.trafficHomeId, updateViewPreferences],
+  );
 
-  const { nodes } = useNodes(systems, maps);
-  const edges = useEdges(connections);
+  const { activityFeed, clearActivityFeed } = useActivityFeed(mapData);
 
   const mapNodes = useMapNodes(maps);
   const mapEdges = useMapEdges(maps);
@@ -88,7 +179,7 @@ export const useDashboard = ({
 
   const markAsMain = useCallback(
     async (systemId: string) => {
-      const node = nodes.find((n: any) => n.data.systemEveId === parseInt(systemId));
+      const node = nodes.find(n => n.data.systemEveId === parseInt(systemId));
 
       if (!node) return;
 
@@ -103,6 +194,23 @@ export const useDashboard = ({
     await pushEventAsync(ServerEvent.MARK_MAP_AS_MAIN, { mapId: mapId });
   }, []);
 
+  // Link to the system on the Wanderer map it comes from
+  const getSystemUrl = useCallback(
+    async (systemId: string) => {
+      const node = nodes.find(n => n.id === systemId);
+
+      if (!node) return null;
+
+      const response = (await pushEventAsync(ServerEvent.GET_SYSTEM_URL, {
+        mapId: node.data.mapId,
+        systemEveId: node.data.systemEveId,
+      })) as { url?: unknown };
+
+      return typeof response?.url === 'string' ? response.url : null;
+    },
+    [nodes],
+  );
+
   useEffect(() => {
     setMaps(serverMaps);
   }, [serverMaps]);
@@ -110,7 +218,7 @@ export const useDashboard = ({
   useEffect(() => {
     console.log('[useDashboard] mapCachedData changed:', {
       keys: Object.keys(mapCachedData || {}),
-      connectionCounts: Object.entries(mapCachedData || {}).map(([k, v]: [string, any]) => ({
+      connectionCounts: Object.entries(mapCachedData || {}).map(([k, v]) => ({
         mapId: k,
         connections: v?.connections?.length || 0,
       })),
@@ -124,9 +232,18 @@ export const useDashboard = ({
 
   return {
     setupVisible: showSetup,
+    connectionLabelsVisible,
     maps,
-    mapData,
+    mapData: displayedData,
     mapLicenseState,
+    viewPreferences,
+    effects,
+    edgeStyle,
+    trafficHomeIds,
+    activityFeed,
+    recentChanges,
+    history,
+    playbackIndex,
     nodes,
     edges,
     mapNodes,
@@ -138,6 +255,17 @@ export const useDashboard = ({
     removeMap,
     markAsMain,
     markMapAsMain,
+    getSystemUrl,
+    clearActivityFeed,
+    seekHistory,
+    toggleMapVisible,
+    soloMap,
+    toggleMapCollapsed,
     showSetup: setShowSetup,
+    showConnectionLabels: setConnectionLabelsVisible,
+    updateViewPreferences,
+    setEffectsMode,
+    setEdgeStyle,
+    setTrafficHome,
   };
 };
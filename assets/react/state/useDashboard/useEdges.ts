@@ -1,19 +1,15 @@
 import { useMemo } from 'react';
 
-const useEdges = (connections: any[]): any[] => {
+import { ConnectionEdge, MapConnection } from '@/react/model';
+import { toConnectionEdge } from '@/react/utils/graphElements';
+
+const useEdges = (connections: MapConnection[], showLabels = false): ConnectionEdge[] => {
   const edges = useMemo(() => {
     console.log('[useEdges] Recalculating edges, connections count:', connections.length);
-    const result = connections.map((connection: any) => ({
-      id: `${connection.solar_system_source}-${connection.solar_system_target}`,
-      source: `${connection.solar_system_source}`,
-      target: `${connection.solar_system_target}`,
-      data: {
-        name: '',
-      },
-    }));
+    const result = connections.map(connection => toConnectionEdge(connection, showLabels));
 
     return result;
-  }, [connections]);
+  }, [connections, showLabels]);
 
   return edges;
 };
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { MapCachedData } from '@/react/model';
+
+// Rolling buffer size; the oldest snapshots are dropped first
+const MAX_SNAPSHOTS = 200;
+
+export type HistorySnapshot = {
+  timestamp: number;
+  data: MapCachedData;
+};
+
+// Keeps every map_cached_data version received since the dashboard was opened, ordered by time,
+// so server-provided history can be merged in later by timestamp
+const useHistory = (mapCachedData: MapCachedData) => {
+  const [history, setHistory] = useState<HistorySnapshot[]>([]);
+  // Timestamp of the snapshot being replayed, null while showing live data.
+  // A timestamp rather than an index keeps playback on the same snapshot while old ones fall off the buffer
+  const [playbackTimestamp, setPlaybackTimestamp] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!Object.keys(mapCachedData).length) return;
+    setHistory(prev => [...prev, { timestamp: Date.now(), data: mapCachedData }].slice(-MAX_SNAPSHOTS));
+  }, [mapCachedData]);
+
+  const playbackIndex = useMemo(() => {
+    if (playbackTimestamp === null || !history.length) return null;
+    const index = history.findIndex(snapshot => snapshot.timestamp >= playbackTimestamp);
+    return index === -1 ? history.length - 1 : index;
+  }, [history, playbackTimestamp]);
+
+  const seekHistory = useCallback(
+    (index: number | null) => {
+      setPlaybackTimestamp(index === null ? null : (history[index]?.timestamp ?? null));
+    },
+    [history],
+  );
+
+  const playbackData = playbackIndex === null ? null : history[playbackIndex].data;
+
+  return { history, playbackIndex, playbackData, seekHistory };
+};
+
+export default useHistory;
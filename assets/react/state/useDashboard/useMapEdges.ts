@@ -1,6 +1,8 @@
 import { useMemo } from 'react';
 
-function createEdges(maps: any[]): any[] {
+import { Map as MapInfo, MapEdge } from '@/react/model';
+
+function createEdges(maps: MapInfo[]): MapEdge[] {
   if (!maps.length) return [];
   // Find the main object (assumes only one exists)
   const mainMap = maps.find(map => map.is_main) || maps[0];
@@ -18,7 +20,7 @@ function createEdges(maps: any[]): any[] {
     }));
 }
 
-const useMapEdges = (maps: any[]): any[] => {
+const useMapEdges = (maps: MapInfo[]): MapEdge[] => {
   const edges = useMemo(() => {
     return createEdges(maps);
   }, [maps]);
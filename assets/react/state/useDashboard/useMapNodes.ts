@@ -1,9 +1,11 @@
 import { useMemo } from 'react';
 
-const useMapNodes = (maps: any[]): any[] => {
+import { Map as MapInfo, MapNode } from '@/react/model';
+
+const useMapNodes = (maps: MapInfo[]): MapNode[] => {
   const nodes = useMemo(() => {
     const result = maps
-      .map((map: any) => {
+      .map(map => {
         return {
           id: `${map.id}`,
           data: {
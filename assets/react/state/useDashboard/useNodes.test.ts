@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+
+import { Map as MapInfo, MapCachedData, SystemNode } from '@/react/model';
+import { connection, system } from '@/react/test/payload';
+
+import { computeNodes } from './useNodes';
+
+const maps: MapInfo[] = [
+  { id: 'main', title: 'Main', color: '#fff', is_main: true, main_system_eve_id: 1, started: true },
+  { id: 'chain', title: 'Chain', color: '#fff', is_main: false, main_system_eve_id: 10, started: true },
+  { id: 'far', title: 'Far', color: '#fff', is_main: false, main_system_eve_id: 20, started: true },
+];
+
+// As sent by prepare_cached_data: border system 2 is on both source maps but only kept on the main map,
+// the chain map keeps its connection to it. The far map shares nothing. Snapshots taken before
+// `shared_systems` existed look like this.
+const payload: MapCachedData = {
+  main: {
+    systems: [
+      system(1, 'main', { home: true }),
+      system(2, 'main', { x: 0, y: 800 }),
+      system(3, 'main', { x: 2000, y: 0 }),
+    ],
+    shared_systems: [],
+    connections: [connection(1, 2), connection(1, 3)],
+  },
+  chain: {
+    systems: [system(10, 'chain', { x: 5000, y: 5000, home: true }), system(11, 'chain', { x: 5100, y: 5000 })],
+    shared_systems: [],
+    connections: [connection(10, 11), connection(11, 2)],
+  },
+  far: {
+    systems: [system(20, 'far', { x: -300, y: -300, home: true })],
+    shared_systems: [],
+    connections: [],
+  },
+};
+
+// Live payload: the chain map also sends its own copy of the border system
+const livePayload: MapCachedData = {
+  ...payload,
+  chain: { ...payload.chain!, shared_systems: [system(2, 'chain', { x: 5250, y: 5000 })] },
+};
+
+// Back to source map units
+const distance = (a: SystemNode, b: SystemNode) => Math.hypot(a.style.x - b.style.x, a.style.y - b.style.y) * 2;
+const byId = (nodes: SystemNode[]) => Object.fromEntries(nodes.map(n => [n.id, n]));
+
+describe('computeNodes', () => {
+  it('hangs a secondary map off the border system it connects to', () => {
+    const nodes = byId(computeNodes(payload, maps));
+
+    expect(distance(nodes['11'], nodes['2'])).toBeLessThan(400);
+    expect(distance(nodes['11'], nodes['2'])).toBeLessThan(distance(nodes['11'], nodes['3']));
+  });
+
+  it('keeps systems of different maps apart', () => {
+    const nodes = computeNodes(payload, maps);
+
+    for (const a of nodes) {
+      for (const b of nodes) {
+        if (a.data.mapId !== b.data.mapId) expect(distance(a, b)).toBeGreaterThanOrEqual(120);
+      }
+    }
+  });
+
+  it('puts maps without connections to the right of what is placed', () => {
+    const nodes = byId(computeNodes(payload, maps));
+    const rightmost = Math.max(...['1', '2', '3', '10', '11'].map(id => nodes[id].style.x));
+
+    expect(nodes['20'].style.x).toBeGreaterThan(rightmost);
+  });
+
+  it('leaves hidden maps out', () => {
+    const nodes = computeNodes(payload, maps, ['far']);
+
+    expect(nodes.map(n => n.id).sort()).toEqual(['1', '10', '11', '2', '3']);
+  });
+
+  it('lays the shared copy of a border system over the placed one', () => {
+    const nodes = byId(computeNodes(livePayload, maps));
+
+    expect(nodes['2'].data.mapId).toBe('main');
+    expect(distance(nodes['11'], nodes['2'])).toBeCloseTo(150);
+  });
+
+  it('gives border systems of a hidden main map to the next visible map', () => {
+    const nodes = byId(computeNodes(livePayload, maps, ['main']));
+
+    expect(Object.keys(nodes).sort()).toEqual(['10', '11', '2', '20']);
+    expect(nodes['2'].data.mapId).toBe('chain');
+  });
+});
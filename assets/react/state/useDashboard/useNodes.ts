@@ -1,9 +1,10 @@
 import { useMemo } from 'react';
 
-import { getBackgroundClass } from '@/react/utils/getBackgroundClass';
+import { Map as MapInfo, MapCachedData, MapConnection, MapSystem, SystemNode } from '@/react/model';
+import { toSystemNode } from '@/react/utils/graphElements';
 
-const filterUniqueSystems = (data: any[], main_map_id: string) => {
-  const map = new Map();
+const filterUniqueSystems = (data: MapSystem[], main_map_id: string): MapSystem[] => {
+  const map = new Map<number, MapSystem>();
 
   for (const item of data) {
     const systemId = item.solar_system_id;
@@ -12,7 +13,7 @@ const filterUniqueSystems = (data: any[], main_map_id: string) => {
       // First occurrence → add it
       map.set(systemId, item);
     } else {
-      const existing = map.get(systemId);
+      const existing = map.get(systemId)!;
 
       // Prefer item with map_id === main_map_id
       const existingPreferred = existing.map_id === main_map_id;
@@ -28,58 +29,211 @@ const filterUniqueSystems = (data: any[], main_map_id: string) => {
   return Array.from(map.values());
 };
 
-const useNodes = (systems: any[], maps: any[]): any => {
-  const mapsMap = useMemo(() => {
-    const result = maps.reduce((acc: any, map: any) => {
-      acc[map.id] = map;
-      return acc;
-    }, {});
-
-    return result;
-  }, [maps]);
-
-  const nodes = useMemo(() => {
-    if (!maps.length) return [];
-    const mainMap = maps.find((m: any) => m.is_main) || maps[0];
-    const mainMapId = mainMap.id;
-
-    // Debug: log first system to see available keys
-    if (systems.length > 0) {
-      console.log('[useNodes] First system keys:', Object.keys(systems[0]));
-      console.log('[useNodes] First system position data:', {
-        position_x: systems[0].position_x,
-        position_y: systems[0].position_y,
-        // Also check camelCase variants
-        positionX: systems[0].positionX,
-        positionY: systems[0].positionY,
-      });
+// Smallest distance kept between a merged map's systems and those already placed, in source map units
+const MERGE_MIN_DISTANCE = 120;
+const MERGE_MAX_STEPS = 100;
+
+type Offset = [number, number];
+
+const average = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+
+// Placed systems bucketed into cells of MERGE_MIN_DISTANCE, so a collision check only looks at the
+// 3x3 cells around a position instead of every placed system
+const toCell = (value: number) => Math.floor(value / MERGE_MIN_DISTANCE);
+const cellKey = (cellX: number, cellY: number) => `${cellX}:${cellY}`;
+
+// Each map has its own coordinate space, so every map after the main one hangs off the maps already placed,
+// then is pushed away from the placed systems until none of its own systems overlaps them. It is anchored on:
+// - systems it shares with the placed maps, laid over their placed copies
+// - otherwise its connections to placed systems: the server gives each border system to the first map that
+//   has it, so the other maps only keep the connection, and their end of it goes next to the border system
+// Maps with neither are put to the right.
+export const computeMapOffsets = (
+  systems: MapSystem[],
+  connectionsByMap: Record<string, MapConnection[]>,
+  mapIds: string[],
+): Record<string, Offset> => {
+  const systemsByMap = new Map<string, MapSystem[]>(mapIds.map(id => [id, []]));
+  for (const system of systems) {
+    systemsByMap.get(system.map_id)?.push(system);
+  }
+
+  // Position of each placed system, with the offset of the map it was placed from
+  const placed = new Map<number, Offset>();
+  const grid = new Map<string, Offset[]>();
+  // Bounding box of everything placed: [minX, minY, maxX, maxY]
+  const bounds = [Infinity, Infinity, -Infinity, -Infinity];
+  const offsets: Record<string, Offset> = {};
+
+  const place = (mapId: string, offset: Offset) => {
+    offsets[mapId] = offset;
+    for (const system of systemsByMap.get(mapId)!) {
+      if (placed.has(system.solar_system_id)) continue;
+
+      const position: Offset = [system.position_x + offset[0], system.position_y + offset[1]];
+      placed.set(system.solar_system_id, position);
+
+      const key = cellKey(toCell(position[0]), toCell(position[1]));
+      if (!grid.has(key)) grid.set(key, []);
+      grid.get(key)!.push(position);
+      bounds[0] = Math.min(bounds[0], position[0]);
+      bounds[1] = Math.min(bounds[1], position[1]);
+      bounds[2] = Math.max(bounds[2], position[0]);
+      bounds[3] = Math.max(bounds[3], position[1]);
     }
+  };
 
-    const result = filterUniqueSystems(systems, mainMapId).map((system: any) => {
-      return {
-        id: `${system.solar_system_id}`,
-        // G6 v5: positions go in style object (scaled to 50%)
-        style: {
-          x: system.position_x * 0.5,
-          y: system.position_y * 0.5,
-        },
-        data: {
-          name: system.name,
-          systemEveId: system.solar_system_id,
-          mapId: system.map_id,
-          nodeType: 'hexagon',
-          bgFill: getBackgroundClass(system.static_info.system_class, system.static_info.security),
-          systemClass: system.static_info.system_class,
-          security: system.static_info.security,
-          isMain: system.status === 1,
-          isBorder: system.is_border || false,
-          borderMaps: system.border_maps || [],
-        },
-      };
+  const isTooClose = (x: number, y: number) => {
+    const cellX = toCell(x);
+    const cellY = toCell(y);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const positions = grid.get(cellKey(cellX + dx, cellY + dy));
+        if (positions?.some(([px, py]) => Math.hypot(x - px, y - py) < MERGE_MIN_DISTANCE)) return true;
+      }
+    }
+    return false;
+  };
+
+  // `ownBounds` is the bounding box of the map's own systems before the offset; once it clears the placed
+  // systems by MERGE_MIN_DISTANCE none of them can collide
+  const collides = (own: MapSystem[], ownBounds: number[], offset: Offset) => {
+    if (
+      ownBounds[0] + offset[0] >= bounds[2] + MERGE_MIN_DISTANCE ||
+      ownBounds[2] + offset[0] <= bounds[0] - MERGE_MIN_DISTANCE ||
+      ownBounds[1] + offset[1] >= bounds[3] + MERGE_MIN_DISTANCE ||
+      ownBounds[3] + offset[1] <= bounds[1] - MERGE_MIN_DISTANCE
+    ) {
+      return false;
+    }
+    return own.some(system => isTooClose(system.position_x + offset[0], system.position_y + offset[1]));
+  };
+
+  // Connections of a map from one of its own unplaced systems to a placed system of another map
+  const getLinks = (mapId: string) => {
+    const ownSystems = new Map(
+      systemsByMap
+        .get(mapId)!
+        .filter(system => !placed.has(system.solar_system_id))
+        .map(system => [system.solar_system_id, system]),
+    );
+    return (connectionsByMap[mapId] || []).flatMap(({ solar_system_source: source, solar_system_target: target }) => {
+      if (ownSystems.has(source) && placed.has(target)) return [{ system: ownSystems.get(source)!, borderId: target }];
+      if (ownSystems.has(target) && placed.has(source)) return [{ system: ownSystems.get(target)!, borderId: source }];
+      return [];
     });
+  };
+
+  const [mainMapId, ...pending] = mapIds;
+  place(mainMapId, [0, 0]);
+
+  while (pending.length) {
+    // Maps connected to what is already placed go first, so chains of secondary maps line up too
+    const index = Math.max(
+      pending.findIndex(
+        id => systemsByMap.get(id)!.some(system => placed.has(system.solar_system_id)) || getLinks(id).length > 0,
+      ),
+      0,
+    );
+    const [mapId] = pending.splice(index, 1);
+    const mapSystems = systemsByMap.get(mapId)!;
+    const shared = mapSystems.filter(system => placed.has(system.solar_system_id));
+    const own = mapSystems.filter(system => !placed.has(system.solar_system_id));
+    const links = getLinks(mapId);
+
+    if (!mapSystems.length || !placed.size) {
+      place(mapId, [0, 0]);
+      continue;
+    }
+
+    const placedPositions = [...placed.values()];
+    let offset: Offset;
+    let direction: Offset;
+
+    if (shared.length || links.length) {
+      // Push the chain away from the centre of what is placed, through its border systems
+      const borderPositions = [
+        ...shared.map(system => placed.get(system.solar_system_id)!),
+        ...links.map(({ borderId }) => placed.get(borderId)!),
+      ];
+      const centre: Offset = [average(placedPositions.map(p => p[0])), average(placedPositions.map(p => p[1]))];
+      const anchor: Offset = [average(borderPositions.map(p => p[0])), average(borderPositions.map(p => p[1]))];
+      direction = [anchor[0] - centre[0], anchor[1] - centre[1]];
+
+      if (shared.length) {
+        offset = [
+          average(shared.map(system => placed.get(system.solar_system_id)![0] - system.position_x)),
+          average(shared.map(system => placed.get(system.solar_system_id)![1] - system.position_y)),
+        ];
+      } else {
+        // One connection length past the border system, away from the centre
+        const length = Math.hypot(direction[0], direction[1]);
+        const [dx, dy] = length ? [direction[0] / length, direction[1] / length] : [1, 0];
+        offset = [
+          average(
+            links.map(({ system, borderId }) => placed.get(borderId)![0] + dx * MERGE_MIN_DISTANCE - system.position_x),
+          ),
+          average(
+            links.map(({ system, borderId }) => placed.get(borderId)![1] + dy * MERGE_MIN_DISTANCE - system.position_y),
+          ),
+        ];
+      }
+    } else {
+      const right = Math.max(...placedPositions.map(p => p[0])) + MERGE_MIN_DISTANCE * 2;
+      const top = Math.min(...placedPositions.map(p => p[1]));
+      offset = [
+        right - Math.min(...mapSystems.map(system => system.position_x)),
+        top - Math.min(...mapSystems.map(system => system.position_y)),
+      ];
+      direction = [1, 0];
+    }
+
+    const length = Math.hypot(direction[0], direction[1]);
+    const step: Offset = length
+      ? [(direction[0] / length) * (MERGE_MIN_DISTANCE / 2), (direction[1] / length) * (MERGE_MIN_DISTANCE / 2)]
+      : [MERGE_MIN_DISTANCE / 2, 0];
+
+    const ownBounds = [
+      Math.min(...own.map(system => system.position_x)),
+      Math.min(...own.map(system => system.position_y)),
+      Math.max(...own.map(system => system.position_x)),
+      Math.max(...own.map(system => system.position_y)),
+    ];
+    for (let i = 0; i < MERGE_MAX_STEPS && collides(own, ownBounds, offset); i++) {
+      offset = [offset[0] + step[0], offset[1] + step[1]];
+    }
+
+    place(mapId, offset);
+  }
+
+  return offsets;
+};
+
+// Systems of hidden maps are dropped before de-duplication. Each border system is sent with the first map
+// that has it; the other maps carry their copy in `shared_systems`, which goes after all the claimed systems,
+// so it only shows when the claiming map is hidden, e.g. the main map's border systems then stay with the
+// next visible map. Snapshots taken before `shared_systems` existed lose those systems instead.
+export const computeNodes = (mapData: MapCachedData, maps: MapInfo[], hiddenMaps: string[] = []): SystemNode[] => {
+  const visibleMaps = maps.filter(m => !hiddenMaps.includes(m.id));
+  if (!visibleMaps.length) return [];
+  const mainMap = visibleMaps.find(m => m.is_main) || visibleMaps[0];
+  const mainMapId = mainMap.id;
+
+  const systems = [
+    ...visibleMaps.flatMap(map => mapData[map.id]?.systems || []),
+    ...visibleMaps.flatMap(map => mapData[map.id]?.shared_systems || []),
+  ];
+  const connectionsByMap = Object.fromEntries(visibleMaps.map(map => [map.id, mapData[map.id]?.connections || []]));
+  const offsets = computeMapOffsets(systems, connectionsByMap, [
+    mainMapId,
+    ...visibleMaps.filter(m => m.id !== mainMapId).map(m => m.id),
+  ]);
+
+  return filterUniqueSystems(systems, mainMapId).map(system => toSystemNode(system, offsets[system.map_id]));
+};
 
-    return result;
-  }, [systems, mapsMap, maps]);
+const useNodes = (mapData: MapCachedData, maps: MapInfo[], hiddenMaps: string[] = []): { nodes: SystemNode[] } => {
+  const nodes = useMemo(() => computeNodes(mapData, maps, hiddenMaps), [mapData, maps, hiddenMaps]);
 
   return { nodes };
 };
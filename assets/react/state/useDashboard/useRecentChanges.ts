@@ -0,0 +1,108 @@
+import { useEffect, useRef, useState } from 'react';
+
+import { NEW_HIGHLIGHT_DURATION, REMOVED_FADE_DURATION } from '@/react/constants/recentChanges';
+import { ConnectionEdge, SystemNode } from '@/react/model';
+
+const PRUNE_INTERVAL = 5 * 1000;
+
+export type RecentChanges = {
+  // Element id -> time it first appeared
+  addedAt: Record<string, number>;
+  // Last known version of elements that disappeared, kept around while they fade out
+  removedNodes: (SystemNode & { removedAt: number })[];
+  removedEdges: (ConnectionEdge & { removedAt: number })[];
+};
+
+const EMPTY_CHANGES: RecentChanges = { addedAt: {}, removedNodes: [], removedEdges: [] };
+
+const prune = (changes: RecentChanges, now: number): RecentChanges => {
+  const addedAt = Object.fromEntries(
+    Object.entries(changes.addedAt).filter(([, time]) => now - time < NEW_HIGHLIGHT_DURATION),
+  );
+  const removedNodes = changes.removedNodes.filter(n => now - n.removedAt < REMOVED_FADE_DURATION);
+  const removedEdges = changes.removedEdges.filter(e => now - e.removedAt < REMOVED_FADE_DURATION);
+
+  const unchanged =
+    Object.keys(addedAt).length === Object.keys(changes.addedAt).length &&
+    removedNodes.length === changes.removedNodes.length &&
+    removedEdges.length === changes.removedEdges.length;
+
+  return unchanged ? changes : { addedAt, removedNodes, removedEdges };
+};
+
+// Compares successive node/edge snapshots. Maps that had no systems before are skipped,
+// so loading or starting a map does not light up all of its systems, and maps that have no systems
+// any more are skipped the same way, so hiding a map does not fade all of its systems out.
+// Tracking is paused while `enabled` is false (history playback) and restarts from the next live snapshot
+const useRecentChanges = (nodes: SystemNode[], edges: ConnectionEdge[], enabled = true) => {
+  const [recentChanges, setRecentChanges] = useState<RecentChanges>(EMPTY_CHANGES);
+  const previousRef = useRef<{ nodes: SystemNode[]; edges: ConnectionEdge[] }>({ nodes: [], edges: [] });
+
+  useEffect(() => {
+    if (!enabled) {
+      previousRef.current = { nodes: [], edges: [] };
+      return;
+    }
+
+    const previous = previousRef.current;
+    previousRef.current = { nodes, edges };
+
+    const loadedMapIds = new Set(previous.nodes.map(n => n.data.mapId));
+    if (!loadedMapIds.size) return;
+
+    const now = Date.now();
+    const nodeIds = new Set(nodes.map(n => n.id));
+    const edgeIds = new Set(edges.map(e => e.id));
+    const previousNodeIds = new Set(previous.nodes.map(n => n.id));
+    const previousEdgeIds = new Set(previous.edges.map(e => e.id));
+    const mapIdByNode = new Map(nodes.map(n => [n.id, n.data.mapId]));
+    const currentMapIds = new Set(mapIdByNode.values());
+    const previousMapIdByNode = new Map(previous.nodes.map(n => [n.id, n.data.mapId]));
+
+    const addedNodes = nodes.filter(n => !previousNodeIds.has(n.id) && loadedMapIds.has(n.data.mapId));
+    const addedEdges = edges.filter(
+      e =>
+        !previousEdgeIds.has(e.id) &&
+        (loadedMapIds.has(mapIdByNode.get(e.source) ?? '') || loadedMapIds.has(mapIdByNode.get(e.target) ?? '')),
+    );
+    const removedNodes = previous.nodes
+      .filter(n => !nodeIds.has(n.id) && currentMapIds.has(n.data.mapId))
+      .map(n => ({ ...n, removedAt: now }));
+    const removedEdges = previous.edges
+      .filter(
+        e =>
+          !edgeIds.has(e.id) &&
+          (currentMapIds.has(previousMapIdByNode.get(e.source) ?? '') ||
+            currentMapIds.has(previousMapIdByNode.get(e.target) ?? '')),
+      )
+      .map(e => ({ ...e, removedAt: now }));
+
+    if (!addedNodes.length && !addedEdges.length && !removedNodes.length && !removedEdges.length) return;
+
+    setRecentChanges(prev => {
+      const addedAt = { ...prev.addedAt };
+      for (const element of [...addedNodes, ...addedEdges]) {
+        addedAt[element.id] = now;
+      }
+
+      return prune(
+        {
+          addedAt,
+          // An element that comes back is no longer fading out
+          removedNodes: [...prev.removedNodes.filter(n => !nodeIds.has(n.id)), ...removedNodes],
+          removedEdges: [...prev.removedEdges.filter(e => !edgeIds.has(e.id)), ...removedEdges],
+        },
+        now,
+      );
+    });
+  }, [nodes, edges, enabled]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setRecentChanges(prev => prune(prev, Date.now())), PRUNE_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  return recentChanges;
+};
+
+export default useRecentChanges;
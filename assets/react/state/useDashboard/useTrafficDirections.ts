@@ -0,0 +1,31 @@
+import { useMemo } from 'react';
+
+import { ConnectionEdge, Map as MapInfo, SystemNode } from '@/react/model';
+import { computeEdgeDirectionsToHome, computeHomeDistances, findHomeNodeIds } from '@/react/utils/graph';
+
+// Tags every connection with the end closer to its traffic home, which the animated edge styles move toward.
+// The traffic home is the system picked by the owner, e.g. a staging system during an op,
+// and otherwise the nearest home among those of all the maps
+const useTrafficDirections = (
+  nodes: SystemNode[],
+  edges: ConnectionEdge[],
+  maps: MapInfo[],
+  pickedHomeId: string | null,
+) => {
+  const trafficHomeIds = useMemo(() => {
+    if (pickedHomeId && nodes.some(n => n.id === pickedHomeId)) return [pickedHomeId];
+    return findHomeNodeIds(nodes, maps);
+  }, [nodes, maps, pickedHomeId]);
+
+  const edgesWithDirections = useMemo((): ConnectionEdge[] => {
+    const edgeDirections = computeEdgeDirectionsToHome(edges, computeHomeDistances(nodes, edges, trafficHomeIds));
+    return edges.map(edge => ({
+      ...edge,
+      data: { ...edge.data, directionToHome: edgeDirections.get(edge.id) || 'source' },
+    }));
+  }, [nodes, edges, trafficHomeIds]);
+
+  return { trafficHomeIds, edges: edgesWithDirections };
+};
+
+export default useTrafficDirections;
@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { DEFAULT_SYSTEM_FILTER, SystemFilter } from '@/react/constants/filters';
+import { KillWindow } from '@/react/constants/kills';
+import { LayoutType } from '@/react/constants/layouts';
+import { Map as MapInfo } from '@/react/model';
+import { Position } from '@/react/utils/layouts';
+import { loadJSON, saveJSON } from '@/react/utils/storage';
+
+export type EdgeType = 'line' | 'quadratic';
+
+export type Viewport = {
+  zoom: number;
+  position: [number, number];
+};
+
+export type ViewPreferences = {
+  // null means "fit everything on load"
+  viewport: Viewport | null;
+  minimapVisible: boolean;
+  edgeType: EdgeType;
+  killWindow: KillWindow;
+  // Jump counts from home on labels and node tint by depth
+  depthOverlay: boolean;
+  // Node tint by the home each system belongs to
+  homeTint: boolean;
+  // Only systems within this many jumps of home are shown; null shows everything
+  maxDepth: number | null;
+  systemFilter: SystemFilter;
+  // Maps whose systems and hull are left out of the aggregated view
+  hiddenMaps: string[];
+  // Maps drawn as a single summary node instead of their systems
+  collapsedMaps: string[];
+  layout: LayoutType;
+  // Systems the user dragged, kept at that position whatever the layout
+  pinnedNodes: Record<string, Position>;
+  // System the animated connections flow toward instead of the map homes; null follows the nearest home
+  trafficHomeId: string | null;
+};
+
+export const DEFAULT_VIEW_PREFERENCES: ViewPreferences = {
+  viewport: null,
+  minimapVisible: true,
+  edgeType: 'line',
+  killWindow: '1h',
+  depthOverlay: false,
+  homeTint: false,
+  maxDepth: null,
+  systemFilter: DEFAULT_SYSTEM_FILTER,
+  hiddenMaps: [],
+  collapsedMaps: [],
+  layout: 'raw',
+  pinnedNodes: {},
+  trafficHomeId: null,
+};
+
+// Preferences are stored per set of maps, so each dashboard remembers its own view
+const getStorageKey = (maps: MapInfo[]) =>
+  `wanderer-ops:view:${maps
+    .map(m => m.id)
+    .sort()
+    .join(',')}`;
+
+// Key of the map set viewed last, so adding or removing a map carries its preferences over
+const LAST_STORAGE_KEY = 'wanderer-ops:view-last';
+
+const loadViewPreferences = (storageKey: string) => {
+  const { key: lastKey } = loadJSON<{ key: string | null }>(LAST_STORAGE_KEY, { key: null });
+  saveJSON(LAST_STORAGE_KEY, { key: storageKey });
+
+  const stored = loadJSON<Partial<ViewPreferences> | null>(storageKey, null);
+  if (stored) return { ...DEFAULT_VIEW_PREFERENCES, ...stored };
+  if (!lastKey || lastKey === storageKey) return DEFAULT_VIEW_PREFERENCES;
+
+  const inherited = loadJSON(lastKey, DEFAULT_VIEW_PREFERENCES);
+  saveJSON(storageKey, inherited);
+  return inherited;
+};
+
+const useViewPreferences = (maps: MapInfo[]) => {
+  const storageKey = useMemo(() => getStorageKey(maps), [maps]);
+  const [viewPreferences, setViewPreferences] = useState<ViewPreferences>(() => loadViewPreferences(storageKey));
+
+  useEffect(() => {
+    setViewPreferences(loadViewPreferences(storageKey));
+  }, [storageKey]);
+
+  const updateViewPreferences = useCallback(
+    (update: Partial<ViewPreferences>) => {
+      setViewPreferences(prev => {
+        const next = { ...prev, ...update };
+        saveJSON(storageKey, next);
+        return next;
+      });
+    },
+    [storageKey],
+  );
+
+  return { viewPreferences, updateViewPreferences };
+};
+
+export default useViewPreferences;
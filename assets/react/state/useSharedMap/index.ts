@@ -1,72 +1,69 @@
-import { useMemo } from 'react';
+import { useMemo, useState } from 'react';
 import constate from 'constate';
 
-import { getBackgroundClass } from '@/react/utils/getBackgroundClass';
+import { useEffectsMode } from '@/react/hooks/useEffectsMode';
+import { ConnectionEdge, Map as MapInfo, MapCachedData, MapConnection, MapSystem, SystemNode } from '@/react/model';
+import { toConnectionEdge, toSystemNode } from '@/react/utils/graphElements';
 
 type UseSharedMapProps = {
-  map: any;
-  mapCachedData: Record<string, any>;
+  map: MapInfo;
+  mapCachedData: MapCachedData;
   expiresAt: string;
 };
 
 const useSharedMap = ({ map, mapCachedData, expiresAt }: UseSharedMapProps) => {
-  const systems = useMemo(() => {
+  const [connectionLabelsVisible, showConnectionLabels] = useState(false);
+  const { effects, setEffectsMode } = useEffectsMode();
+
+  const systems = useMemo((): MapSystem[] => {
     const data = mapCachedData[map.id];
     return data?.systems || [];
   }, [mapCachedData, map.id]);
 
-  const connections = useMemo(() => {
+  const connections = useMemo((): MapConnection[] => {
     const data = mapCachedData[map.id];
     return data?.connections || [];
   }, [mapCachedData, map.id]);
 
-  const nodes = useMemo(() => {
-    return systems.map((system: any) => ({
-      id: `${system.solar_system_id}`,
-      style: {
-        x: system.position_x * 0.5,
-        y: system.position_y * 0.5,
-      },
-      data: {
-        name: system.name,
-        systemEveId: system.solar_system_id,
-        mapId: system.map_id,
-        nodeType: 'hexagon',
-        bgFill: getBackgroundClass(system.static_info?.system_class, system.static_info?.security),
-        systemClass: system.static_info?.system_class,
-        security: system.static_info?.security,
-        isMain: system.status === 1,
-        isBorder: system.is_border || false,
-        borderMaps: system.border_maps || [],
-      },
-    }));
-  }, [systems]);
+  const nodes = useMemo((): SystemNode[] => systems.map(system => toSystemNode(system)), [systems]);
 
-  const edges = useMemo(() => {
-    return connections.map((connection: any) => ({
-      id: `${connection.solar_system_source}-${connection.solar_system_target}`,
-      source: `${connection.solar_system_source}`,
-      target: `${connection.solar_system_target}`,
-      data: {
-        name: '',
-      },
-    }));
-  }, [connections]);
+  const edges = useMemo(
+    (): ConnectionEdge[] => connections.map(connection => toConnectionEdge(connection, connectionLabelsVisible)),
+    [connections, connectionLabelsVisible],
+  );
 
   return {
     map,
     nodes,
     edges,
     expiresAt,
+    connectionLabelsVisible,
+    showConnectionLabels,
+    effects,
+    setEffectsMode,
   };
 };
 
-export const [SharedMapProvider, useSharedMapContext, useSharedMapData, useSharedNodes, useSharedEdges, useExpiresAt] =
-  constate(
-    useSharedMap,
-    value => value,
-    value => value.map,
-    value => value.nodes,
-    value => value.edges,
-    value => value.expiresAt,
-  );
+export const [
+  SharedMapProvider,
+  useSharedMapContext,
+  useSharedMapData,
+  useSharedNodes,
+  useSharedEdges,
+  useExpiresAt,
+  useSharedConnectionLabelsVisible,
+  useShowSharedConnectionLabels,
+  useSharedEffects,
+  useSetSharedEffectsMode,
+] = constate(
+  useSharedMap,
+  value => value,
+  value => value.map,
+  value => value.nodes,
+  value => value.edges,
+  value => value.expiresAt,
+  value => value.connectionLabelsVisible,
+  value => value.showConnectionLabels,
+  value => value.effects,
+  value => value.setEffectsMode,
+);
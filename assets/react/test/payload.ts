@@ -0,0 +1,41 @@
+import { MapConnection, MapSystem } from '@/react/model';
+
+// Builders for systems and connections shaped like the `map_cached_data` payload of the LiveViews
+
+// Class ids of the static info: 1-6 are C1-C6, 7 high-sec, 8 low-sec, 9 null-sec
+const SECURITY_BY_CLASS: Record<number, string> = { 7: '0.9', 8: '0.3', 9: '-0.4' };
+
+export const system = (
+  solarSystemId: number,
+  mapId: string,
+  {
+    x = 0,
+    y = 0,
+    home = false,
+    systemClass = 7,
+  }: { x?: number; y?: number; home?: boolean; systemClass?: number } = {},
+): MapSystem => ({
+  solar_system_id: solarSystemId,
+  map_id: mapId,
+  name: `J${solarSystemId}`,
+  status: home ? 1 : 0,
+  position_x: x,
+  position_y: y,
+  is_border: false,
+  border_maps: [],
+  static_info: {
+    solar_system_id: solarSystemId,
+    solar_system_name: `J${solarSystemId}`,
+    system_class: systemClass,
+    security: SECURITY_BY_CLASS[systemClass] ?? '-1.0',
+  },
+});
+
+export const connection = (source: number, target: number): MapConnection => ({
+  solar_system_source: source,
+  solar_system_target: target,
+  mass_status: 0,
+  time_status: 0,
+  ship_size_type: 2,
+  wormhole_type: null,
+});
@@ -0,0 +1,67 @@
+import { SystemNodeData } from '../model';
+
+const SIGNATURES_FILL = '#1e3a5f';
+const UNSCANNED_FILL = '#b45309';
+const PILOTS_FILL = '#0e7490';
+const KILLS_FILL = '#991b1b';
+const NEW_FILL = '#15803d';
+const TRAFFIC_HOME_FILL = '#6d28d9';
+
+// Badges for the signature, pilot and kill counters; an unscanned signature turns the signature badge amber.
+// The kill count depends on the selected time window, "new" on the change tracking and the traffic home
+// on the owner's pick, so these come from the view
+export const getActivityBadges = (
+  data: SystemNodeData,
+  {
+    killCount = 0,
+    isNew = false,
+    isTrafficHome = false,
+  }: { killCount?: number; isNew?: boolean; isTrafficHome?: boolean } = {},
+) => {
+  const badges = [];
+
+  if (isNew) {
+    badges.push({
+      text: 'NEW',
+      placement: 'top',
+      backgroundFill: NEW_FILL,
+    });
+  }
+
+  if (data.signatures > 0) {
+    badges.push({
+      text:
+        data.unscannedSignatures > 0
+          ? `${data.signatures} sig ⚠${data.unscannedSignatures}`
+          : `${data.signatures} sig`,
+      placement: 'right-top',
+      backgroundFill: data.unscannedSignatures > 0 ? UNSCANNED_FILL : SIGNATURES_FILL,
+    });
+  }
+
+  if (data.pilots > 0) {
+    badges.push({
+      text: `${data.pilots} ${data.pilots === 1 ? 'pilot' : 'pilots'}`,
+      placement: 'right-bottom',
+      backgroundFill: PILOTS_FILL,
+    });
+  }
+
+  if (killCount > 0) {
+    badges.push({
+      text: `☠ ${killCount}`,
+      placement: 'left-top',
+      backgroundFill: KILLS_FILL,
+    });
+  }
+
+  if (isTrafficHome) {
+    badges.push({
+      text: '⇥ traffic',
+      placement: 'bottom',
+      backgroundFill: TRAFFIC_HOME_FILL,
+    });
+  }
+
+  return badges;
+};
@@ -0,0 +1,91 @@
+import { TIME_STATUS } from '../constants/connections';
+import { MapCachedData, MapConnection, MapSystem } from '../model';
+
+export type ActivityType = 'system_added' | 'connection_removed' | 'connection_eol' | 'border_added';
+
+export type ActivityEntry = {
+  id: string;
+  type: ActivityType;
+  mapId: string;
+  // Graph node to focus when the entry is clicked
+  nodeId: string;
+  text: string;
+  timestamp: number;
+};
+
+export const ACTIVITY_TITLES: Record<ActivityType, string> = {
+  system_added: 'System added',
+  connection_removed: 'Connection removed',
+  connection_eol: 'Connection went EOL',
+  border_added: 'New border system',
+};
+
+const connectionKey = (c: MapConnection) =>
+  c.solar_system_source < c.solar_system_target
+    ? `${c.solar_system_source}-${c.solar_system_target}`
+    : `${c.solar_system_target}-${c.solar_system_source}`;
+
+// Systems and connections move between maps when the server re-assigns them,
+// so snapshots are compared across all maps rather than map by map
+const indexSnapshot = (data: MapCachedData) => {
+  const systems = new Map<number, MapSystem>();
+  const connections = new Map<string, { mapId: string; connection: MapConnection }>();
+
+  for (const [mapId, mapData] of Object.entries(data)) {
+    if (!mapData) continue;
+    for (const system of mapData.systems) {
+      systems.set(system.solar_system_id, system);
+    }
+    for (const connection of mapData.connections) {
+      connections.set(connectionKey(connection), { mapId, connection });
+    }
+  }
+
+  return { systems, connections };
+};
+
+// Maps without data in the previous snapshot are skipped, otherwise loading a map would flood the feed
+export const diffMapCachedData = (prev: MapCachedData, next: MapCachedData, timestamp: number): ActivityEntry[] => {
+  const loadedMapIds = Object.keys(next).filter(mapId => prev[mapId] && next[mapId]);
+  if (!loadedMapIds.length) return [];
+
+  const before = indexSnapshot(prev);
+  const after = indexSnapshot(next);
+  const systemName = (id: number) => after.systems.get(id)?.name ?? before.systems.get(id)?.name ?? `${id}`;
+
+  const entries: ActivityEntry[] = [];
+  const push = (type: ActivityType, mapId: string, systemId: number, text: string) => {
+    entries.push({ id: `${timestamp}-${type}-${text}`, type, mapId, nodeId: `${systemId}`, text, timestamp });
+  };
+
+  for (const [id, system] of after.systems) {
+    if (!loadedMapIds.includes(system.map_id)) continue;
+
+    const previous = before.systems.get(id);
+    if (!previous) {
+      push('system_added', system.map_id, id, system.name);
+    }
+    if (system.is_border && !previous?.is_border) {
+      push('border_added', system.map_id, id, system.name);
+    }
+  }
+
+  for (const [key, { mapId, connection }] of before.connections) {
+    if (!loadedMapIds.includes(mapId) || after.connections.has(key)) continue;
+
+    const { solar_system_source: source, solar_system_target: target } = connection;
+    push('connection_removed', mapId, source, `${systemName(source)} ↔ ${systemName(target)}`);
+  }
+
+  for (const [key, { mapId, connection }] of after.connections) {
+    if (!loadedMapIds.includes(mapId) || connection.time_status !== TIME_STATUS.eol) continue;
+
+    const previous = before.connections.get(key)?.connection;
+    if (previous && previous.time_status !== TIME_STATUS.eol) {
+      const { solar_system_source: source, solar_system_target: target } = connection;
+      push('connection_eol', mapId, source, `${systemName(source)} ↔ ${systemName(target)}`);
+    }
+  }
+
+  return entries;
+};
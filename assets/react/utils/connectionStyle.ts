@@ -0,0 +1,23 @@
+import {
+  EOL_LINE_DASH,
+  MASS_STATUS,
+  MASS_STATUS_COLORS,
+  SHIP_SIZE_LINE_WIDTH_FACTORS,
+  SHIP_SIZE_STATUS,
+  TIME_STATUS,
+} from '../constants/connections';
+
+// A stable connection keeps the view's own stroke, destab/critical always override it
+export const getConnectionStroke = (massStatus: number, fallback = MASS_STATUS_COLORS[MASS_STATUS.normal]) => {
+  if (massStatus === MASS_STATUS.normal) return fallback;
+  return MASS_STATUS_COLORS[massStatus] ?? fallback;
+};
+
+export const getConnectionLineWidth = (shipSizeType: number, baseWidth: number) => {
+  const factor = SHIP_SIZE_LINE_WIDTH_FACTORS[shipSizeType] ?? SHIP_SIZE_LINE_WIDTH_FACTORS[SHIP_SIZE_STATUS.large];
+  return baseWidth * factor;
+};
+
+export const getConnectionLineDash = (timeStatus: number, fallback?: number[]) => {
+  return timeStatus === TIME_STATUS.eol ? EOL_LINE_DASH : fallback;
+};
@@ -0,0 +1,238 @@
+import { Graph } from '@antv/g6';
+
+export type ExportFormat = 'png' | 'svg' | 'json';
+
+export type LegendItem = {
+  label: string;
+  color: string;
+};
+
+export type ExportCluster = {
+  key: string;
+  label: string;
+  color: string;
+  members: string[];
+};
+
+export type ExportOptions = {
+  filename: string;
+  legend: LegendItem[] | null;
+  clusters: ExportCluster[];
+};
+
+const BACKGROUND = '#1f2937';
+const PADDING = 40;
+const HULL_PADDING = 24;
+const LEGEND_ROW_HEIGHT = 18;
+const LEGEND_FONT = '12px monospace';
+
+type Point = [number, number];
+
+const timestamp = () => new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+const download = (href: string, filename: string) => {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+};
+
+const downloadBlob = (content: string, type: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  download(url, filename);
+  URL.revokeObjectURL(url);
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = reject;
+    image.src = src;
+  });
+
+// Monotone chain convex hull
+const convexHull = (points: Point[]): Point[] => {
+  if (points.length < 3) return points;
+
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  const cross = (o: Point, a: Point, b: Point) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+  const lower: Point[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Point[] = [];
+  for (const p of [...sorted].reverse()) {
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+
+  return lower.slice(0, -1).concat(upper.slice(0, -1));
+};
+
+// Padded hull around the cluster members, approximated by circling each member with 8 points
+const getHullPoints = (graph: Graph, members: string[]): Point[] => {
+  const points: Point[] = [];
+  for (const id of members) {
+    const [x, y] = graph.getElementPosition(id);
+    for (let i = 0; i < 8; i++) {
+      const angle = (i * Math.PI) / 4;
+      points.push([x + HULL_PADDING * Math.cos(angle), y + HULL_PADDING * Math.sin(angle)]);
+    }
+  }
+  return convexHull(points);
+};
+
+const drawLegend = (ctx: CanvasRenderingContext2D, legend: LegendItem[], height: number, ratio: number) => {
+  ctx.save();
+  ctx.scale(ratio, ratio);
+  ctx.font = LEGEND_FONT;
+  ctx.textBaseline = 'middle';
+
+  const width = Math.max(...legend.map(item => ctx.measureText(item.label).width)) + 36;
+  const boxHeight = legend.length * LEGEND_ROW_HEIGHT + 12;
+  const top = height / ratio - boxHeight - 12;
+
+  ctx.fillStyle = 'rgba(10, 14, 23, 0.85)';
+  ctx.strokeStyle = 'rgba(0, 240, 255, 0.3)';
+  ctx.fillRect(12, top, width, boxHeight);
+  ctx.strokeRect(12, top, width, boxHeight);
+
+  legend.forEach((item, index) => {
+    const y = top + 6 + index * LEGEND_ROW_HEIGHT + LEGEND_ROW_HEIGHT / 2;
+    ctx.fillStyle = item.color;
+    ctx.fillRect(20, y - 5, 10, 10);
+    ctx.fillStyle = '#e5e7eb';
+    ctx.fillText(item.label, 38, y);
+  });
+
+  ctx.restore();
+};
+
+// Raster export of the whole graph (not only the visible part), hulls included as they live on the main canvas
+export const exportPng = async (graph: Graph, { filename, legend }: ExportOptions) => {
+  const image = await loadImage(await graph.toDataURL({ mode: 'overall', type: 'image/png' }));
+
+  // The graph canvas is transparent, so paint the dashboard background behind it
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(image, 0, 0);
+  if (legend?.length) {
+    drawLegend(ctx, legend, canvas.height, globalThis.devicePixelRatio || 1);
+  }
+
+  download(canvas.toDataURL('image/png'), `${filename}-${timestamp()}.png`);
+};
+
+// Vector export rebuilt from the rendered positions and styles; curved edges are drawn straight
+export const exportSvg = (graph: Graph, { filename, legend, clusters }: ExportOptions) => {
+  const nodes = graph.getNodeData();
+  const edges = graph.getEdgeData();
+  if (!nodes.length) return;
+
+  const positions = new Map(nodes.map(node => [String(node.id), graph.getElementPosition(node.id)]));
+  const hulls = clusters
+    .filter(cluster => cluster.members.some(id => positions.has(id)))
+    .map(cluster => ({
+      cluster,
+      points: getHullPoints(
+        graph,
+        cluster.members.filter(id => positions.has(id)),
+      ),
+    }));
+
+  const allPoints = [...positions.values(), ...hulls.flatMap(hull => hull.points)];
+  const minX = Math.min(...allPoints.map(p => p[0])) - PADDING;
+  const minY = Math.min(...allPoints.map(p => p[1])) - PADDING;
+  const width = Math.max(...allPoints.map(p => p[0])) - minX + PADDING;
+  const height = Math.max(...allPoints.map(p => p[1])) - minY + PADDING;
+
+  const parts: string[] = [];
+  parts.push(`<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="${BACKGROUND}" />`);
+
+  for (const { cluster, points } of hulls) {
+    parts.push(
+      `<polygon points="${points.map(p => p.join(',')).join(' ')}" fill="${cluster.color}" fill-opacity="0.15" ` +
+        `stroke="${cluster.color}" stroke-opacity="0.6" stroke-linejoin="round" />`,
+    );
+  }
+
+  for (const edge of edges) {
+    const source = positions.get(String(edge.source));
+    const target = positions.get(String(edge.target));
+    if (!source || !target) continue;
+
+    const style = graph.getElementRenderStyle(edge.id!);
+    const dash = Array.isArray(style.lineDash) ? ` stroke-dasharray="${style.lineDash.join(' ')}"` : '';
+    parts.push(
+      `<line x1="${source[0]}" y1="${source[1]}" x2="${target[0]}" y2="${target[1]}" ` +
+        `stroke="${style.stroke ?? '#6496c8'}" stroke-width="${style.lineWidth ?? 1}"${dash} />`,
+    );
+  }
+
+  for (const node of nodes) {
+    const [x, y] = positions.get(String(node.id))!;
+    const style = graph.getElementRenderStyle(node.id);
+    const size = Array.isArray(style.size) ? style.size[0] : (style.size ?? 20);
+    parts.push(`<circle cx="${x}" cy="${y}" r="${size / 2}" fill="${style.fill || '#0a84ff'}" />`);
+    if (style.labelText) {
+      parts.push(
+        `<text x="${x}" y="${y + size / 2 + 12}" text-anchor="middle" font-family="Arial" font-size="11" fill="#ffffff">` +
+          `${escapeXml(String(style.labelText))}</text>`,
+      );
+    }
+  }
+
+  if (legend?.length) {
+    const top = minY + height - legend.length * LEGEND_ROW_HEIGHT - 24;
+    legend.forEach((item, index) => {
+      const y = top + 6 + index * LEGEND_ROW_HEIGHT;
+      parts.push(`<rect x="${minX + 20}" y="${y}" width="10" height="10" fill="${item.color}" />`);
+      parts.push(
+        `<text x="${minX + 38}" y="${y + 9}" font-family="monospace" font-size="12" fill="#e5e7eb">` +
+          `${escapeXml(item.label)}</text>`,
+      );
+    });
+  }
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+    `viewBox="${minX} ${minY} ${width} ${height}">\n${parts.join('\n')}\n</svg>\n`;
+
+  downloadBlob(svg, 'image/svg+xml', `${filename}-${timestamp()}.svg`);
+};
+
+// Data export of what is currently shown: nodes, edges and the clusters they are grouped in
+export const exportJson = (graph: Graph, { filename, clusters }: ExportOptions) => {
+  const payload = {
+    exported_at: new Date().toISOString(),
+    nodes: graph.getNodeData(),
+    edges: graph.getEdgeData(),
+    clusters,
+  };
+
+  downloadBlob(JSON.stringify(payload, null, 2), 'application/json', `${filename}-${timestamp()}.json`);
+};
+
+export const exportGraph = (graph: Graph, format: ExportFormat, options: ExportOptions) => {
+  switch (format) {
+    case 'png':
+      return exportPng(graph, options);
+    case 'svg':
+      return exportSvg(graph, options);
+    case 'json':
+      return exportJson(graph, options);
+  }
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+
+import { bestFuzzyScore, fuzzyScore } from '@/react/utils/fuzzyMatch';
+
+describe('fuzzyScore', () => {
+  it('ranks exact, prefix, substring and subsequence matches in that order', () => {
+    const exact = fuzzyScore('j123-ta', 'J123-TA')!;
+    const prefix = fuzzyScore('j12', 'J123-TA')!;
+    const substring = fuzzyScore('23-t', 'J123-TA')!;
+    const subsequence = fuzzyScore('jta', 'J123-TA')!;
+
+    expect(exact).toBeGreaterThan(prefix);
+    expect(prefix).toBeGreaterThan(substring);
+    expect(substring).toBeGreaterThan(subsequence);
+    expect(subsequence).toBeGreaterThan(0);
+  });
+
+  it('prefers tighter subsequences', () => {
+    expect(fuzzyScore('abc', 'a-b-c')!).toBeGreaterThan(fuzzyScore('abc', 'a----b----c')!);
+  });
+
+  it('does not match missing characters, empty queries or missing text', () => {
+    expect(fuzzyScore('jx', 'J123-TA')).toBeNull();
+    expect(fuzzyScore('  ', 'J123-TA')).toBeNull();
+    expect(fuzzyScore('j', null)).toBeNull();
+  });
+});
+
+describe('bestFuzzyScore', () => {
+  it('takes the best of the candidate texts', () => {
+    expect(bestFuzzyScore('amarr', ['J123-TA', 'Amarr', null])).toBe(100);
+    expect(bestFuzzyScore('amarr', ['J123-TA', undefined])).toBeNull();
+  });
+});
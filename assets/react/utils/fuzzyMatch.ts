@@ -0,0 +1,36 @@
+// Scores how well `query` matches `text`; higher is better, null means no match.
+// A prefix beats a substring, which beats a loose subsequence (e.g. "jta" -> "J123-TA").
+export const fuzzyScore = (query: string, text: string | null | undefined): number | null => {
+  if (!text) return null;
+
+  const q = query.trim().toLowerCase();
+  const t = text.toLowerCase();
+  if (!q) return null;
+
+  if (t === q) return 100;
+  if (t.startsWith(q)) return 80;
+
+  const index = t.indexOf(q);
+  if (index !== -1) return 60 - Math.min(index, 20);
+
+  // Subsequence match, penalised by the gaps between matched characters
+  let gaps = 0;
+  let position = -1;
+  for (const char of q) {
+    const next = t.indexOf(char, position + 1);
+    if (next === -1) return null;
+    if (position !== -1) gaps += next - position - 1;
+    position = next;
+  }
+
+  return Math.max(1, 30 - gaps);
+};
+
+// Best score over several candidate texts
+export const bestFuzzyScore = (query: string, texts: (string | null | undefined)[]): number | null => {
+  return texts.reduce<number | null>((best, text) => {
+    const score = fuzzyScore(query, text);
+    if (score === null) return best;
+    return best === null ? score : Math.max(best, score);
+  }, null);
+};
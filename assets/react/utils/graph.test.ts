@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+
+import { Map as MapInfo } from '@/react/model';
+import { connection, system } from '@/react/test/payload';
+import { computeEdgeDirectionsToHome, computeHomeDistances, findHomeNodeIds, findRoute } from '@/react/utils/graph';
+import { toConnectionEdge, toSystemNode } from '@/react/utils/graphElements';
+
+// Home in high-sec, a wormhole chain (C3, C5) out to null-sec, and a low-sec detour back
+const nodes = [
+  system(1, 'main', { home: true, systemClass: 7 }),
+  system(2, 'main', { systemClass: 3 }),
+  system(3, 'main', { systemClass: 5 }),
+  system(4, 'main', { systemClass: 9 }),
+  system(5, 'main', { systemClass: 8 }),
+].map(s => toSystemNode(s));
+const edges = [connection(1, 2), connection(2, 3), connection(3, 4), connection(1, 5), connection(5, 4)].map(c =>
+  toConnectionEdge(c),
+);
+
+describe('findRoute', () => {
+  it('finds the shortest path and the maps it crosses', () => {
+    const route = findRoute(nodes, edges, '1', '4');
+
+    expect(route?.nodeIds).toEqual(['1', '5', '4']);
+    expect(route?.edgeIds).toEqual(['1-5', '5-4']);
+    expect(route?.jumps).toBe(2);
+    expect(route?.mapsCrossed).toEqual(['main']);
+  });
+
+  it('keeps wormhole space when filtering by security', () => {
+    const route = findRoute(nodes, edges, '1', '4', { avoidCritical: false, avoidEol: false, minSecurity: 0.5 });
+
+    expect(route?.nodeIds).toEqual(['1', '2', '3', '4']);
+  });
+
+  it('returns null when no allowed path exists', () => {
+    const isolated = nodes.filter(n => n.id !== '2' && n.id !== '5');
+
+    expect(findRoute(isolated, edges, '1', '4')).toBeNull();
+  });
+});
+
+// Two homes with system 4 one jump past each of them, and system 5 connected to neither
+const maps: MapInfo[] = [
+  { id: 'chain', title: 'Chain', color: '#fff', is_main: false, main_system_eve_id: 10, started: true },
+  { id: 'main', title: 'Main', color: '#fff', is_main: true, main_system_eve_id: 1, started: true },
+];
+const homeNodes = [
+  system(10, 'chain', { home: true }),
+  system(11, 'chain'),
+  system(1, 'main', { home: true }),
+  system(2, 'main'),
+  system(4, 'main'),
+  system(5, 'main'),
+].map(s => toSystemNode(s));
+const homeEdges = [connection(1, 2), connection(4, 2), connection(11, 10), connection(11, 4)].map(c =>
+  toConnectionEdge(c),
+);
+
+describe('findHomeNodeIds', () => {
+  it('lists the main map home first', () => {
+    expect(findHomeNodeIds(homeNodes, maps)).toEqual(['1', '10']);
+  });
+});
+
+describe('computeHomeDistances', () => {
+  it('measures jumps from the nearest home', () => {
+    const { depths } = computeHomeDistances(homeNodes, homeEdges, ['1', '10']);
+
+    expect(Object.fromEntries(depths)).toEqual({ '1': 0, '2': 1, '4': 2, '10': 0, '11': 1 });
+  });
+
+  it('gives ties to the home listed first whatever the node order', () => {
+    const forward = computeHomeDistances(homeNodes, homeEdges, ['1', '10']);
+    const reversed = computeHomeDistances([...homeNodes].reverse(), [...homeEdges].reverse(), ['1', '10']);
+
+    for (const { owners, parents } of [forward, reversed]) {
+      expect(owners.get('4')).toBe('1');
+      expect(parents.get('4')).toBe('2');
+      expect(owners.get('11')).toBe('10');
+    }
+  });
+
+  it('ignores homes that are not on the dashboard', () => {
+    const { homeIds, depths } = computeHomeDistances(homeNodes, homeEdges, ['99', '10', '10']);
+
+    expect(homeIds).toEqual(['10']);
+    expect(depths.get('1')).toBe(4);
+  });
+});
+
+describe('computeEdgeDirectionsToHome', () => {
+  it('points each connection at the end closer to its home', () => {
+    const directions = computeEdgeDirectionsToHome(homeEdges, computeHomeDistances(homeNodes, homeEdges, ['1', '10']));
+
+    expect(Object.fromEntries(directions)).toEqual({
+      '1-2': 'source',
+      '4-2': 'target',
+      '11-10': 'target',
+      // Off the shortest paths, 4 is owned by home 1 through 2
+      '11-4': 'source',
+    });
+  });
+});
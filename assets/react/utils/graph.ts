@@ -0,0 +1,239 @@
+import { MASS_STATUS, TIME_STATUS } from '@/react/constants/connections';
+import { ConnectionEdge, Map as MapInfo, SystemNode } from '@/react/model';
+import { isWormholeSpace } from '@/react/utils/isWormholeSpace';
+
+export type RouteOptions = {
+  avoidCritical: boolean;
+  avoidEol: boolean;
+  // Systems with a security status below this are skipped; null disables the check
+  minSecurity: number | null;
+};
+
+export type Route = {
+  nodeIds: string[];
+  edgeIds: string[];
+  jumps: number;
+  // Map ids in the order the route enters them
+  mapsCrossed: string[];
+  borderSystems: string[];
+};
+
+export const DEFAULT_ROUTE_OPTIONS: RouteOptions = {
+  avoidCritical: false,
+  avoidEol: false,
+  minSecurity: null,
+};
+
+// Undirected adjacency: nodeId -> (neighbourId -> edgeId)
+export const buildAdjacency = (nodes: SystemNode[], edges: ConnectionEdge[]) => {
+  const adjacency = new Map<string, Map<string, string>>();
+  for (const node of nodes) {
+    adjacency.set(node.id, new Map());
+  }
+  for (const edge of edges) {
+    // Connections to systems that are not on the dashboard are skipped
+    if (!adjacency.has(edge.source) || !adjacency.has(edge.target)) continue;
+    adjacency.get(edge.source)!.set(edge.target, edge.id);
+    adjacency.get(edge.target)!.set(edge.source, edge.id);
+  }
+  return adjacency;
+};
+
+// Home system for a node: the home of its own map, otherwise any home on the dashboard
+export const findHomeNodeId = (nodes: SystemNode[], mapId: string): string | null => {
+  const home = nodes.find(n => n.data.isMain && n.data.mapId === mapId) || nodes.find(n => n.data.isMain);
+  return home?.id ?? null;
+};
+
+// Every home system on the dashboard, in priority order: the main map's home first, then by system id.
+// The order decides which home owns the systems that are equally far from several homes
+export const findHomeNodeIds = (nodes: SystemNode[], maps: MapInfo[]): string[] => {
+  const mainMapId = (maps.find(m => m.is_main) || maps[0])?.id;
+  return nodes
+    .filter(n => n.data.isMain)
+    .sort((a, b) => {
+      const aMain = a.data.mapId === mainMapId ? 0 : 1;
+      const bMain = b.data.mapId === mainMapId ? 0 : 1;
+      return aMain - bMain || a.id.localeCompare(b.id);
+    })
+    .map(n => n.id);
+};
+
+export type HomeDistances = {
+  // Homes present on the dashboard, in priority order
+  homeIds: string[];
+  // Jumps from the nearest home; systems not connected to any home are missing
+  depths: Map<string, number>;
+  // Next system on the shortest path toward the nearest home
+  parents: Map<string, string>;
+  // Home each system belongs to
+  owners: Map<string, string>;
+};
+
+// Multi-source BFS from every home over the whole dashboard graph, one depth at a time.
+// A system reached from several homes at the same depth goes to the home listed first,
+// then to the parent with the lowest id, so the result does not depend on the order of nodes and edges
+export const computeHomeDistances = (
+  nodes: SystemNode[],
+  edges: ConnectionEdge[],
+  homeIds: string[],
+): HomeDistances => {
+  const depths = new Map<string, number>();
+  const parents = new Map<string, string>();
+  const owners = new Map<string, string>();
+  const nodeIds = new Set(nodes.map(n => n.id));
+  const presentHomeIds = homeIds.filter((id, index) => nodeIds.has(id) && homeIds.indexOf(id) === index);
+  if (presentHomeIds.length === 0) return { homeIds: [], depths, parents, owners };
+
+  const homeRank = new Map(presentHomeIds.map((id, index) => [id, index]));
+  const isPreferred = (candidate: string, current: string) => {
+    const candidateRank = homeRank.get(owners.get(candidate)!)!;
+    const currentRank = homeRank.get(owners.get(current)!)!;
+    return candidateRank < currentRank || (candidateRank === currentRank && candidate < current);
+  };
+
+  const adjacency = buildAdjacency(nodes, edges);
+  let frontier = presentHomeIds;
+  for (const homeId of presentHomeIds) {
+    depths.set(homeId, 0);
+    owners.set(homeId, homeId);
+  }
+
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const current of frontier) {
+      const depth = depths.get(current)! + 1;
+      for (const neighbor of adjacency.get(current)!.keys()) {
+        if (!depths.has(neighbor)) {
+          depths.set(neighbor, depth);
+          next.push(neighbor);
+        } else if (depths.get(neighbor) !== depth || !isPreferred(current, parents.get(neighbor)!)) {
+          continue;
+        }
+        parents.set(neighbor, current);
+        owners.set(neighbor, owners.get(current)!);
+      }
+    }
+    frontier = next;
+  }
+
+  return { homeIds: presentHomeIds, depths, parents, owners };
+};
+
+// Which end of each connection is closer to its home, from the home BFS.
+// Animated edges move from the far end toward the closer one
+export const computeEdgeDirectionsToHome = (
+  edges: Pick<ConnectionEdge, 'id' | 'source' | 'target'>[],
+  { homeIds, parents }: HomeDistances,
+): Map<string, 'source' | 'target'> => {
+  const edgeDirections = new Map<string, 'source' | 'target'>();
+
+  if (homeIds.length === 0) {
+    // No home node found - no directions to compute
+    return edgeDirections;
+  }
+
+  const homes = new Set(homeIds);
+  for (const { source, target, id } of edges) {
+    if (homes.has(source)) {
+      edgeDirections.set(id, 'source');
+    } else if (homes.has(target)) {
+      edgeDirections.set(id, 'target');
+    } else if (parents.get(source) === target) {
+      // Source's parent is target -> source is farther, target is closer to home
+      edgeDirections.set(id, 'target');
+    } else if (parents.get(target) === source) {
+      // Target's parent is source -> target is farther, source is closer to home
+      edgeDirections.set(id, 'source');
+    } else {
+      // Connections off the shortest paths, or not connected to any home at all
+      edgeDirections.set(id, 'source');
+    }
+  }
+
+  return edgeDirections;
+};
+
+// Node label with the jump count from home. Depth is undefined while the overlay is off
+// and null for systems with no path home
+export const formatDepthLabel = (name: string, depth: number | null | undefined) => {
+  if (depth === undefined) return name;
+  return `${name} · ${depth === null ? '∞' : depth}j`;
+};
+
+const isEdgeAllowed = (edge: ConnectionEdge, options: RouteOptions) => {
+  if (options.avoidCritical && edge.data.massStatus === MASS_STATUS.critical) return false;
+  if (options.avoidEol && edge.data.timeStatus === TIME_STATUS.eol) return false;
+  return true;
+};
+
+const isNodeAllowed = (node: SystemNode, options: RouteOptions) => {
+  if (options.minSecurity === null) return true;
+  // Wormhole space also has a true-sec (-1.0), but the filter is about gate space, so it never applies there
+  const { systemClass } = node.data;
+  if (systemClass !== undefined && isWormholeSpace(systemClass)) return true;
+  // Systems without static info have no security to compare
+  const security = parseFloat(node.data.security ?? '');
+  if (Number.isNaN(security)) return true;
+  return security >= options.minSecurity;
+};
+
+// Shortest path by jump count (BFS) between two systems of the merged dashboard graph.
+// Origin and destination are always allowed, the filters only apply to what lies between them.
+export const findRoute = (
+  nodes: SystemNode[],
+  edges: ConnectionEdge[],
+  originId: string,
+  destinationId: string,
+  options: RouteOptions = DEFAULT_ROUTE_OPTIONS,
+): Route | null => {
+  const nodesById = new Map(nodes.map(n => [n.id, n]));
+  if (!nodesById.has(originId) || !nodesById.has(destinationId)) return null;
+
+  const allowedEdges = edges.filter(e => isEdgeAllowed(e, options));
+  const adjacency = buildAdjacency(nodes, allowedEdges);
+
+  const parentMap = new Map<string, { nodeId: string; edgeId: string }>();
+  const visited = new Set<string>([originId]);
+  const queue: string[] = [originId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === destinationId) break;
+
+    for (const [neighbor, edgeId] of adjacency.get(current) || new Map<string, string>()) {
+      if (visited.has(neighbor)) continue;
+      if (neighbor !== destinationId && !isNodeAllowed(nodesById.get(neighbor)!, options)) continue;
+
+      visited.add(neighbor);
+      parentMap.set(neighbor, { nodeId: current, edgeId });
+      queue.push(neighbor);
+    }
+  }
+
+  if (!visited.has(destinationId)) return null;
+
+  // Walk back from the destination to rebuild the path
+  const nodeIds = [destinationId];
+  const edgeIds: string[] = [];
+  let step = parentMap.get(destinationId);
+  while (step) {
+    nodeIds.unshift(step.nodeId);
+    edgeIds.unshift(step.edgeId);
+    step = parentMap.get(step.nodeId);
+  }
+
+  const mapsCrossed: string[] = [];
+  const borderSystems: string[] = [];
+  for (const nodeId of nodeIds) {
+    const node = nodesById.get(nodeId)!;
+    if (!mapsCrossed.includes(node.data.mapId)) {
+      mapsCrossed.push(node.data.mapId);
+    }
+    if (node.data.isBorder) {
+      borderSystems.push(nodeId);
+    }
+  }
+
+  return { nodeIds, edgeIds, jumps: edgeIds.length, mapsCrossed, borderSystems };
+};
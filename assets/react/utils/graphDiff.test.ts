@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+
+import { diffGraphData, isEmptyDiff } from '@/react/utils/graphDiff';
+
+const node = (id: string, x = 0, states?: string[]) => ({ id, style: { x, y: 0 }, ...(states && { states }) });
+const edge = (source: string, target: string) => ({ id: `${source}-${target}`, source, target });
+
+describe('diffGraphData', () => {
+  it('adds everything on the first render', () => {
+    const diff = diffGraphData(null, { nodes: [node('1'), node('2')], edges: [edge('1', '2')] });
+
+    expect(diff.nodes.added.map(n => n.id)).toEqual(['1', '2']);
+    expect(diff.edges.added.map(e => e.id)).toEqual(['1-2']);
+    expect(isEmptyDiff(diff)).toBe(false);
+  });
+
+  it('sorts elements into added, updated and removed', () => {
+    const prev = { nodes: [node('1'), node('2'), node('3')], edges: [edge('1', '2'), edge('2', '3')] };
+    const next = { nodes: [node('1'), node('2', 50), node('4')], edges: [edge('1', '2'), edge('1', '4')] };
+
+    const diff = diffGraphData(prev, next);
+
+    expect(diff.nodes).toEqual({ added: [node('4')], updated: [node('2', 50)], removed: ['3'] });
+    expect(diff.edges).toEqual({ added: [edge('1', '4')], updated: [], removed: ['2-3'] });
+  });
+
+  it('treats state changes as updates', () => {
+    const diff = diffGraphData({ nodes: [node('1')], edges: [] }, { nodes: [node('1', 0, ['route'])], edges: [] });
+
+    expect(diff.nodes.updated.map(n => n.id)).toEqual(['1']);
+  });
+
+  it('is empty when nothing changed', () => {
+    const data = { nodes: [node('1'), node('2')], edges: [edge('1', '2')] };
+
+    expect(isEmptyDiff(diffGraphData(data, structuredClone(data)))).toBe(true);
+  });
+
+  it('removes everything when the new data is empty', () => {
+    const diff = diffGraphData({ nodes: [node('1')], edges: [edge('1', '1')] }, { nodes: [], edges: [] });
+
+    expect(diff.nodes.removed).toEqual(['1']);
+    expect(diff.edges.removed).toEqual(['1-1']);
+  });
+});
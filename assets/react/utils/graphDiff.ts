@@ -0,0 +1,78 @@
+import { EdgeData, Graph, NodeData } from '@antv/g6';
+
+type GraphElement = { id: string; states?: string[] };
+
+export type GraphSnapshot<N extends GraphElement = GraphElement, E extends GraphElement = GraphElement> = {
+  nodes: N[];
+  edges: E[];
+};
+
+type ElementDiff<T> = {
+  added: T[];
+  updated: T[];
+  removed: string[];
+};
+
+export type GraphDiff<N extends GraphElement = GraphElement, E extends GraphElement = GraphElement> = {
+  nodes: ElementDiff<N>;
+  edges: ElementDiff<E>;
+};
+
+// States owned by G6 behaviours (click-select, hover-activate) rather than by our data
+const INTERACTION_STATES = ['selected', 'active', 'inactive'];
+
+const diffElements = <T extends GraphElement>(prev: T[], next: T[]): ElementDiff<T> => {
+  const prevById = new Map(prev.map(el => [el.id, JSON.stringify(el)]));
+  const nextIds = new Set(next.map(el => el.id));
+
+  const added: T[] = [];
+  const updated: T[] = [];
+  for (const el of next) {
+    const prevSignature = prevById.get(el.id);
+    if (prevSignature === undefined) {
+      added.push(el);
+    } else if (prevSignature !== JSON.stringify(el)) {
+      updated.push(el);
+    }
+  }
+
+  const removed = prev.filter(el => !nextIds.has(el.id)).map(el => el.id);
+
+  return { added, updated, removed };
+};
+
+export const diffGraphData = <N extends GraphElement, E extends GraphElement>(
+  prev: GraphSnapshot<N, E> | null,
+  next: GraphSnapshot<N, E>,
+): GraphDiff<N, E> => ({
+  nodes: diffElements(prev?.nodes ?? [], next.nodes),
+  edges: diffElements(prev?.edges ?? [], next.edges),
+});
+
+export const isEmptyDiff = <N extends GraphElement, E extends GraphElement>(diff: GraphDiff<N, E>) =>
+  [diff.nodes, diff.edges].every(d => !d.added.length && !d.updated.length && !d.removed.length);
+
+// Keep interaction states on updated elements, and clear data states that are no longer set
+const withStates = <T extends GraphElement>(graph: Graph, elements: T[]) =>
+  elements.map(el => {
+    const interaction = graph.getElementState(el.id).filter(state => INTERACTION_STATES.includes(state));
+    return { ...el, states: [...new Set([...(el.states ?? []), ...interaction])] };
+  });
+
+// Applies a diff in place with draw() instead of setData() + render(), so the viewport stays where it is,
+// existing shapes are not recreated, and position changes use the theme's update animation
+export const applyGraphDiff = async (
+  graph: Graph,
+  diff: GraphDiff<NodeData & GraphElement, EdgeData & GraphElement>,
+) => {
+  // Edges go first so no edge is ever left pointing at a removed node
+  graph.removeEdgeData(diff.edges.removed);
+  graph.removeNodeData(diff.nodes.removed);
+  graph.addData({ nodes: diff.nodes.added, edges: diff.edges.added });
+  graph.updateData({
+    nodes: withStates(graph, diff.nodes.updated),
+    edges: withStates(graph, diff.edges.updated),
+  });
+
+  await graph.draw();
+};
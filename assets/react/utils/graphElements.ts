@@ -0,0 +1,52 @@
+import { MASS_STATUS, SHIP_SIZE_STATUS, TIME_STATUS } from '@/react/constants/connections';
+import { ConnectionEdge, MapConnection, MapSystem, SystemNode } from '@/react/model';
+import { getBackgroundClass } from '@/react/utils/getBackgroundClass';
+
+// Graph elements built from the LiveView payload, shared by the dashboard and the shared map views
+
+// `offset` moves the system from its source map coordinates onto the merged dashboard
+export const toSystemNode = (system: MapSystem, [offsetX, offsetY]: [number, number] = [0, 0]): SystemNode => {
+  const staticInfo = system.static_info;
+
+  return {
+    id: `${system.solar_system_id}`,
+    // G6 v5: positions go in style object (scaled to 50%)
+    style: {
+      x: (system.position_x + offsetX) * 0.5,
+      y: (system.position_y + offsetY) * 0.5,
+    },
+    data: {
+      name: system.name,
+      temporaryName: system.temporary_name ?? null,
+      customName: system.custom_name ?? null,
+      systemEveId: system.solar_system_id,
+      mapId: system.map_id,
+      nodeType: 'hexagon',
+      bgFill: staticInfo ? getBackgroundClass(staticInfo.system_class, staticInfo.security) : '',
+      systemClass: staticInfo?.system_class,
+      security: staticInfo?.security,
+      isMain: system.status === 1,
+      isBorder: system.is_border || false,
+      borderMaps: system.border_maps || [],
+      isShattered: staticInfo?.is_shattered ?? false,
+      signatures: system.activity?.signatures ?? 0,
+      unscannedSignatures: system.activity?.unscanned_signatures ?? 0,
+      pilots: system.activity?.pilots ?? 0,
+      rally: system.activity?.rally ?? false,
+      kills: system.activity?.kills ?? [],
+    },
+  };
+};
+
+export const toConnectionEdge = (connection: MapConnection, showLabels = false): ConnectionEdge => ({
+  id: `${connection.solar_system_source}-${connection.solar_system_target}`,
+  source: `${connection.solar_system_source}`,
+  target: `${connection.solar_system_target}`,
+  data: {
+    name: showLabels ? connection.wormhole_type || '' : '',
+    massStatus: connection.mass_status ?? MASS_STATUS.normal,
+    timeStatus: connection.time_status ?? TIME_STATUS.normal,
+    shipSizeType: connection.ship_size_type ?? SHIP_SIZE_STATUS.large,
+    wormholeType: connection.wormhole_type ?? null,
+  },
+});
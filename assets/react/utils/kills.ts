@@ -0,0 +1,9 @@
+import { KILL_WINDOW_SECONDS, KillWindow } from '../constants/kills';
+
+// `now` is passed in (unix seconds) so counts only change when the caller's clock ticks
+export const countRecentKills = (kills: number[], window: KillWindow, now: number) => {
+  const cutoff = now - KILL_WINDOW_SECONDS[window];
+  return kills.filter(time => time >= cutoff).length;
+};
+
+export const nowInSeconds = () => Math.floor(Date.now() / 1000);
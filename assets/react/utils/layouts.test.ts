@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+
+import { connection, system } from '@/react/test/payload';
+import { toConnectionEdge, toSystemNode } from '@/react/utils/graphElements';
+import { computeLayout } from '@/react/utils/layouts';
+
+// Systems 1-2-3 in a row, at the given source map x positions
+const chain = (xs: number[], y = 0) =>
+  xs.map((x, i) => toSystemNode(system(i + 1, 'main', { x, y: i === 1 ? y : 0, home: i === 0 })));
+const edges = [connection(1, 2), connection(2, 3)].map(c => toConnectionEdge(c));
+const options = { rootId: '1', pinned: {} };
+
+describe('computeLayout', () => {
+  it('keeps the force layout while only source positions change', () => {
+    const before = computeLayout('force', chain([0, 100, 200]), edges, options);
+    const after = computeLayout('force', chain([0, 100, 300], 50), edges, options);
+
+    expect(after).toEqual(before);
+  });
+
+  it('re-runs the force layout when the connections change', () => {
+    const nodes = chain([0, 100, 200]);
+    const before = computeLayout('force', nodes, edges, options);
+    const after = computeLayout('force', nodes, [...edges, toConnectionEdge(connection(3, 1))], options);
+
+    expect(after).not.toEqual(before);
+  });
+
+  it('keeps pinned systems in place', () => {
+    const positions = computeLayout('force', chain([0, 100, 200]), edges, { rootId: '1', pinned: { '2': [500, 500] } });
+
+    expect(positions.get('2')).toEqual([500, 500]);
+  });
+
+  it('anchors the tree layout on the root position', () => {
+    const nodes = chain([40, 100, 200]);
+    const positions = computeLayout('tree', nodes, edges, options);
+
+    expect(positions.get('1')).toEqual([nodes[0].style.x, nodes[0].style.y]);
+    expect(positions.get('3')![1]).toBeGreaterThan(positions.get('2')![1]);
+  });
+});
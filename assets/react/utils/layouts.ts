@@ -0,0 +1,258 @@
+import {
+  FORCE_CACHE_SIZE,
+  FORCE_EDGE_LENGTH,
+  FORCE_GRAVITY,
+  FORCE_ITERATIONS,
+  LAYOUT_LEVEL_SPACING,
+  LAYOUT_SIBLING_SPACING,
+  LayoutType,
+} from '@/react/constants/layouts';
+import { ConnectionEdge, SystemNode } from '@/react/model';
+
+import { buildAdjacency } from './graph';
+
+export type Position = [number, number];
+
+type SpanningTree = {
+  rootId: string;
+  children: Map<string, string[]>;
+  depths: Map<string, number>;
+};
+
+const rawPosition = (node: SystemNode): Position => [node.style.x, node.style.y];
+
+// BFS spanning trees: the first one starts at the root, every component not connected to it gets its own.
+// Children are ordered by source map x position so the result resembles the original map
+const buildSpanningForest = (nodes: SystemNode[], edges: ConnectionEdge[], rootId: string | null) => {
+  const adjacency = buildAdjacency(nodes, edges);
+  const xById = new Map(nodes.map(n => [n.id, n.style.x]));
+  const visited = new Set<string>();
+  const forest: SpanningTree[] = [];
+
+  const starts = rootId && adjacency.has(rootId) ? [rootId, ...nodes.map(n => n.id)] : nodes.map(n => n.id);
+
+  for (const start of starts) {
+    if (visited.has(start)) continue;
+
+    const tree: SpanningTree = { rootId: start, children: new Map(), depths: new Map([[start, 0]]) };
+    const queue = [start];
+    visited.add(start);
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const children = [...adjacency.get(current)!.keys()]
+        .filter(id => !visited.has(id))
+        .sort((a, b) => xById.get(a)! - xById.get(b)! || a.localeCompare(b));
+
+      for (const child of children) {
+        visited.add(child);
+        tree.depths.set(child, tree.depths.get(current)! + 1);
+        queue.push(child);
+      }
+      tree.children.set(current, children);
+    }
+
+    forest.push(tree);
+  }
+
+  return forest;
+};
+
+const countLeaves = (tree: SpanningTree) => {
+  const leaves = new Map<string, number>();
+  const visit = (id: string): number => {
+    const children = tree.children.get(id) || [];
+    const count = children.length ? children.reduce((acc, child) => acc + visit(child), 0) : 1;
+    leaves.set(id, count);
+    return count;
+  };
+  visit(tree.rootId);
+  return leaves;
+};
+
+// Layered tree, each subtree as wide as its leaves; separate components continue to the right
+const treeLayout = (forest: SpanningTree[]) => {
+  const positions = new Map<string, Position>();
+  let offset = 0;
+
+  for (const tree of forest) {
+    const leaves = countLeaves(tree);
+    const place = (id: string, left: number) => {
+      const width = leaves.get(id)! * LAYOUT_SIBLING_SPACING;
+      positions.set(id, [left + width / 2, tree.depths.get(id)! * LAYOUT_LEVEL_SPACING]);
+
+      let childLeft = left;
+      for (const child of tree.children.get(id) || []) {
+        place(child, childLeft);
+        childLeft += leaves.get(child)! * LAYOUT_SIBLING_SPACING;
+      }
+    };
+
+    place(tree.rootId, offset);
+    offset += (leaves.get(tree.rootId)! + 1) * LAYOUT_SIBLING_SPACING;
+  }
+
+  return positions;
+};
+
+// Depth rings around the root, each subtree getting an arc proportional to its leaves.
+// Components not connected to the root share the rings outside the deepest one
+const radialLayout = (forest: SpanningTree[]) => {
+  const positions = new Map<string, Position>();
+  const [main, ...others] = forest;
+  if (!main) return positions;
+
+  const placeTree = (tree: SpanningTree, leaves: Map<string, number>, start: number, end: number, baseRadius = 0) => {
+    const place = (id: string, from: number, to: number) => {
+      const radius = baseRadius + tree.depths.get(id)! * LAYOUT_LEVEL_SPACING;
+      const angle = (from + to) / 2;
+      positions.set(id, [radius * Math.cos(angle), radius * Math.sin(angle)]);
+
+      let childFrom = from;
+      for (const child of tree.children.get(id) || []) {
+        const childTo = childFrom + ((to - from) * leaves.get(child)!) / leaves.get(id)!;
+        place(child, childFrom, childTo);
+        childFrom = childTo;
+      }
+    };
+    place(tree.rootId, start, end);
+  };
+
+  placeTree(main, countLeaves(main), 0, 2 * Math.PI);
+
+  const outerRadius = (Math.max(...main.depths.values()) + 2) * LAYOUT_LEVEL_SPACING;
+  const otherLeaves = others.map(countLeaves);
+  const totalLeaves = otherLeaves.reduce((acc, leaves, i) => acc + leaves.get(others[i].rootId)!, 0);
+
+  let from = 0;
+  others.forEach((tree, i) => {
+    const to = from + (2 * Math.PI * otherLeaves[i].get(tree.rootId)!) / totalLeaves;
+    placeTree(tree, otherLeaves[i], from, to, outerRadius);
+    from = to;
+  });
+
+  return positions;
+};
+
+// Fruchterman-Reingold starting from the source map positions, so the same data always settles the same way.
+// Pinned systems stay where they are and the rest arrange around them
+const forceLayout = (nodes: SystemNode[], edges: ConnectionEdge[], pinned: Record<string, Position>) => {
+  const ids = nodes.map(n => n.id);
+  const indexById = new Map(ids.map((id, i) => [id, i]));
+  const xs = nodes.map(n => pinned[n.id]?.[0] ?? n.style.x);
+  const ys = nodes.map(n => pinned[n.id]?.[1] ?? n.style.y);
+  const fixed = nodes.map(n => !!pinned[n.id]);
+  const links = edges
+    .filter(e => indexById.has(e.source) && indexById.has(e.target))
+    .map(e => [indexById.get(e.source)!, indexById.get(e.target)!]);
+
+  const centerX = xs.reduce((acc, x) => acc + x, 0) / (ids.length || 1);
+  const centerY = ys.reduce((acc, y) => acc + y, 0) / (ids.length || 1);
+
+  const k = FORCE_EDGE_LENGTH;
+  let temperature = k * 2;
+  const cooling = temperature / FORCE_ITERATIONS;
+
+  for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration++) {
+    const dx = new Array(ids.length).fill(0);
+    const dy = new Array(ids.length).fill(0);
+
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        let x = xs[i] - xs[j];
+        let y = ys[i] - ys[j];
+        // Systems stacked on the same spot are pushed apart in a fixed direction
+        if (x === 0 && y === 0) {
+          x = j - i;
+          y = i - j;
+        }
+        const distanceSq = x * x + y * y;
+        const force = (k * k) / distanceSq;
+        dx[i] += x * force;
+        dy[i] += y * force;
+        dx[j] -= x * force;
+        dy[j] -= y * force;
+      }
+    }
+
+    for (const [source, target] of links) {
+      const x = xs[source] - xs[target];
+      const y = ys[source] - ys[target];
+      const distance = Math.sqrt(x * x + y * y) || 1;
+      const force = distance / k;
+      dx[source] -= x * force;
+      dy[source] -= y * force;
+      dx[target] += x * force;
+      dy[target] += y * force;
+    }
+
+    for (let i = 0; i < ids.length; i++) {
+      if (fixed[i]) continue;
+      dx[i] -= (xs[i] - centerX) * FORCE_GRAVITY;
+      dy[i] -= (ys[i] - centerY) * FORCE_GRAVITY;
+      const length = Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]);
+      if (!length) continue;
+      const step = Math.min(length, temperature);
+      xs[i] += (dx[i] / length) * step;
+      ys[i] += (dy[i] / length) * step;
+    }
+
+    temperature -= cooling;
+  }
+
+  return new Map<string, Position>(ids.map((id, i) => [id, [xs[i], ys[i]]]));
+};
+
+const forceCache = new Map<string, Map<string, Position>>();
+
+// The simulation is O(n² · iterations), so results are cached by systems, connections and pins only.
+// Systems moving on their source map alone keep the settled layout until the topology changes
+const cachedForceLayout = (nodes: SystemNode[], edges: ConnectionEdge[], pinned: Record<string, Position>) => {
+  const key = JSON.stringify([nodes.map(n => n.id), edges.map(e => [e.source, e.target]), pinned]);
+  let positions = forceCache.get(key);
+
+  if (positions) {
+    forceCache.delete(key);
+  } else {
+    positions = forceLayout(nodes, edges, pinned);
+    if (forceCache.size >= FORCE_CACHE_SIZE) forceCache.delete(forceCache.keys().next().value!);
+  }
+  forceCache.set(key, positions);
+
+  return new Map(positions);
+};
+
+// Positions for every node. Tree and radial layouts are moved so the root keeps its source map position,
+// and systems the user dragged always keep their pinned position
+export const computeLayout = (
+  type: LayoutType,
+  nodes: SystemNode[],
+  edges: ConnectionEdge[],
+  { rootId, pinned }: { rootId: string | null; pinned: Record<string, Position> },
+): Map<string, Position> => {
+  let positions: Map<string, Position>;
+
+  if (type === 'force') {
+    positions = cachedForceLayout(nodes, edges, pinned);
+  } else if (type === 'radial' || type === 'tree') {
+    const forest = buildSpanningForest(nodes, edges, rootId);
+    positions = type === 'radial' ? radialLayout(forest) : treeLayout(forest);
+
+    const root = nodes.find(n => n.id === forest[0]?.rootId);
+    const rootPosition = root && positions.get(root.id);
+    if (root && rootPosition) {
+      const [anchorX, anchorY] = rawPosition(root);
+      for (const [id, [x, y]] of positions) {
+        positions.set(id, [x - rootPosition[0] + anchorX, y - rootPosition[1] + anchorY]);
+      }
+    }
+  } else {
+    positions = new Map(nodes.map(n => [n.id, rawPosition(n)]));
+  }
+
+  for (const [id, position] of Object.entries(pinned)) {
+    if (positions.has(id)) positions.set(id, position);
+  }
+
+  return positions;
+};
@@ -0,0 +1,75 @@
+// Below this many frames per second the looping map effects are turned off
+export const LOW_FRAME_RATE = 40;
+// How long frames are counted for
+export const FRAME_RATE_SAMPLE = 2000;
+
+// Dual-core machines; 4 cores is an ordinary laptop that runs the effects fine
+const MIN_CORES = 2;
+// GB, as reported by navigator.deviceMemory (Chromium only)
+const MIN_MEMORY = 4;
+
+// Renderers used when the GPU is blocklisted or missing; canvas then falls back to the CPU
+const SOFTWARE_RENDERERS = /swiftshader|llvmpipe|softpipe|software|basic render/i;
+
+export const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+export const prefersReducedMotion = () =>
+  typeof window !== 'undefined' && !!window.matchMedia?.(REDUCED_MOTION_QUERY).matches;
+
+const hasSoftwareRenderer = () => {
+  try {
+    const canvas = document.createElement('canvas');
+    const gl = canvas.getContext('webgl') as WebGLRenderingContext | null;
+    if (!gl) return true;
+
+    const info = gl.getExtension('WEBGL_debug_renderer_info');
+    const renderer = info ? gl.getParameter(info.UNMASKED_RENDERER_WEBGL) : gl.getParameter(gl.RENDERER);
+    // Browsers only allow a handful of live WebGL contexts, so this one is released right away
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+    return SOFTWARE_RENDERERS.test(String(renderer));
+  } catch {
+    return false;
+  }
+};
+
+// Cheap capability check, available right away: few cores, little memory, data saver or no GPU
+export const detectLowPerformance = () => {
+  const nav = navigator as Navigator & { deviceMemory?: number; connection?: { saveData?: boolean } };
+
+  if (nav.hardwareConcurrency && nav.hardwareConcurrency <= MIN_CORES) return true;
+  if (nav.deviceMemory && nav.deviceMemory <= MIN_MEMORY) return true;
+  if (nav.connection?.saveData) return true;
+
+  return hasSoftwareRenderer();
+};
+
+// Counts animation frames for `duration` ms. Resolves null when the tab was hidden meanwhile,
+// since browsers pause frames in background tabs and the count would mean nothing
+export const measureFrameRate = (duration = FRAME_RATE_SAMPLE) =>
+  new Promise<number | null>(resolve => {
+    if (document.hidden) {
+      resolve(null);
+      return;
+    }
+
+    let frames = 0;
+    let start: number | null = null;
+
+    const step = (time: number) => {
+      if (document.hidden) {
+        resolve(null);
+        return;
+      }
+
+      if (start === null) start = time;
+      else frames++;
+
+      if (time - start < duration) {
+        requestAnimationFrame(step);
+      } else {
+        resolve((frames * 1000) / (time - start));
+      }
+    };
+
+    requestAnimationFrame(step);
+  });
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+
+import { DEFAULT_SYSTEM_FILTER } from '@/react/constants/filters';
+import { SystemNodeData } from '@/react/model';
+import { system } from '@/react/test/payload';
+import { toSystemNode } from '@/react/utils/graphElements';
+import { getSpaceFilters, isSystemFilterActive, matchesSystemFilter } from '@/react/utils/systemFilter';
+
+const data = (systemClass: number, extra: Partial<SystemNodeData> = {}): SystemNodeData => ({
+  ...toSystemNode(system(1, 'main', { systemClass })).data,
+  ...extra,
+});
+
+describe('getSpaceFilters', () => {
+  it('maps system classes to space types', () => {
+    expect(getSpaceFilters(data(7))).toEqual(['hs']);
+    expect(getSpaceFilters(data(3))).toEqual(['c3']);
+    // Sentinel, one of the Drifter systems
+    expect(getSpaceFilters(data(14))).toEqual(['drifter']);
+  });
+
+  it('counts a shattered system under its class and as shattered', () => {
+    expect(getSpaceFilters(data(5, { isShattered: true }))).toEqual(['c5', 'shattered']);
+  });
+
+  it('leaves Pochven, Zarzakh and unknown systems out', () => {
+    expect(getSpaceFilters(data(25))).toEqual([]);
+    expect(getSpaceFilters(data(10100))).toEqual([]);
+    expect(getSpaceFilters({ systemClass: undefined, isShattered: false })).toEqual([]);
+  });
+});
+
+describe('matchesSystemFilter', () => {
+  it('hides the excluded space types', () => {
+    const filter = { ...DEFAULT_SYSTEM_FILTER, hiddenSpaces: ['ls' as const, 'shattered' as const] };
+
+    expect(matchesSystemFilter(data(8), filter)).toBe(false);
+    expect(matchesSystemFilter(data(5, { isShattered: true }), filter)).toBe(false);
+    expect(matchesSystemFilter(data(5), filter)).toBe(true);
+    expect(matchesSystemFilter(data(25), filter)).toBe(true);
+  });
+
+  it('keeps only border systems when asked', () => {
+    const filter = { ...DEFAULT_SYSTEM_FILTER, borderOnly: true };
+
+    expect(matchesSystemFilter(data(7), filter)).toBe(false);
+    expect(matchesSystemFilter(data(7, { isBorder: true }), filter)).toBe(true);
+  });
+});
+
+describe('isSystemFilterActive', () => {
+  it('is off for the default filter whatever the mode', () => {
+    expect(isSystemFilterActive(DEFAULT_SYSTEM_FILTER)).toBe(false);
+    expect(isSystemFilterActive({ ...DEFAULT_SYSTEM_FILTER, mode: 'hide' })).toBe(false);
+    expect(isSystemFilterActive({ ...DEFAULT_SYSTEM_FILTER, borderOnly: true })).toBe(true);
+  });
+});
@@ -0,0 +1,44 @@
+import { SOLAR_SYSTEM_CLASS_IDS } from '../constants/classes';
+import { SpaceFilter, SystemFilter } from '../constants/filters';
+import { SystemNodeData } from '../model';
+
+import { isWormholeSpace } from './isWormholeSpace';
+import { isZarzakhSpace } from './isZarzakhSpace';
+
+const CLASS_FILTERS: Record<number, SpaceFilter> = {
+  [SOLAR_SYSTEM_CLASS_IDS.hs]: 'hs',
+  [SOLAR_SYSTEM_CLASS_IDS.ls]: 'ls',
+  [SOLAR_SYSTEM_CLASS_IDS.ns]: 'ns',
+  [SOLAR_SYSTEM_CLASS_IDS.c1]: 'c1',
+  [SOLAR_SYSTEM_CLASS_IDS.c2]: 'c2',
+  [SOLAR_SYSTEM_CLASS_IDS.c3]: 'c3',
+  [SOLAR_SYSTEM_CLASS_IDS.c4]: 'c4',
+  [SOLAR_SYSTEM_CLASS_IDS.c5]: 'c5',
+  [SOLAR_SYSTEM_CLASS_IDS.c6]: 'c6',
+  [SOLAR_SYSTEM_CLASS_IDS.c13]: 'c13',
+  [SOLAR_SYSTEM_CLASS_IDS.thera]: 'thera',
+};
+
+// Space types a system belongs to; a shattered C5 counts as both "c5" and "shattered"
+export const getSpaceFilters = (data: Pick<SystemNodeData, 'systemClass' | 'isShattered'>): SpaceFilter[] => {
+  const { systemClass } = data;
+  if (systemClass === undefined || isZarzakhSpace(systemClass)) return [];
+
+  const result: SpaceFilter[] = [];
+  if (CLASS_FILTERS[systemClass]) {
+    result.push(CLASS_FILTERS[systemClass]);
+  } else if (isWormholeSpace(systemClass)) {
+    // Remaining wormhole classes are the Drifter systems (Sentinel, Barbican, Vidette, Conflux, Redoubt)
+    result.push('drifter');
+  }
+  if (data.isShattered) result.push('shattered');
+
+  return result;
+};
+
+export const isSystemFilterActive = (filter: SystemFilter) => filter.hiddenSpaces.length > 0 || filter.borderOnly;
+
+export const matchesSystemFilter = (data: SystemNodeData, filter: SystemFilter) => {
+  if (filter.borderOnly && !data.isBorder) return false;
+  return !getSpaceFilters(data).some(space => filter.hiddenSpaces.includes(space));
+};
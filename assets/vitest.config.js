@@ -0,0 +1,15 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Unit tests of the pure React-side modules; they need the aliases but none of the Phoenix plugins
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@features': path.resolve(__dirname, './react/features'),
+      '@': path.resolve(__dirname, './'),
+    },
+  },
+  test: {
+    include: ['react/**/*.test.ts'],
+  },
+});
@@ -8,6 +8,8 @@ defmodule WandererOps.Api.ShareLink do
     domain: WandererOps.Api,
     data_layer: AshPostgres.DataLayer
 
+  @edge_styles ["line", "moving-dots", "ant-line"]
+
   postgres do
     repo(WandererOps.Repo)
     table("share_links")
@@ -52,6 +54,11 @@ defmodule WandererOps.Api.ShareLink do
       constraints max_length: 500
     end
 
+    # Connection style viewers start with: "line", "moving-dots" or "ant-line"
+    attribute :edge_style, :string do
+      allow_nil? true
+    end
+
     create_timestamp :inserted_at
     update_timestamp :updated_at
   end
@@ -60,9 +67,11 @@ defmodule WandererOps.Api.ShareLink do
     defaults [:read, :destroy]
 
     create :new do
-      accept [:label, :expires_at, :is_snapshot, :snapshot_data, :description]
+      accept [:label, :expires_at, :is_snapshot, :snapshot_data, :description, :edge_style]
       argument :password, :string, allow_nil?: true
 
+      validate one_of(:edge_style, @edge_styles), where: [present(:edge_style)]
+
       change fn changeset, _context ->
         token = :crypto.strong_rand_bytes(32) |> Base.url_encode64(padding: false)
         changeset = Ash.Changeset.force_change_attribute(changeset, :token, token)
@@ -42,6 +42,9 @@ defmodule WandererOps.Map.Utils do
     # Send notifications to map servers about detected border systems
     send_border_notifications(border_systems_map, sorted_maps)
 
+    # Signatures, pilots and rally points of all maps, so a system claimed by another map keeps them
+    activity_by_system = build_activity_index(sorted_maps)
+
     # Process maps and assign unique systems/connections
     {cached_data, _used_connections, _used_systems} =
       sorted_maps
@@ -53,6 +56,8 @@ defmodule WandererOps.Map.Utils do
           %{systems: systems, connections: connections} ->
             # Filter out systems and connections already claimed by other maps
             unique_systems = filter_unique_systems(systems, used_systems)
+            # This map's copies of the claimed systems, used by the dashboard while the claiming map is hidden
+            shared_systems = filter_claimed_systems(systems, used_systems)
             unique_connections = filter_unique_connections(connections, used_connections)
 
             # Add these systems to the used set
@@ -72,10 +77,18 @@ defmodule WandererOps.Map.Utils do
             enriched_systems =
               unique_systems
               |> enrich_systems_with_border_info(border_systems_map)
+              |> enrich_systems_with_activity(activity_by_system)
+              |> Enum.map(&map_ui_system/1)
+
+            enriched_shared_systems =
+              shared_systems
+              |> enrich_systems_with_border_info(border_systems_map)
+              |> enrich_systems_with_activity(activity_by_system)
               |> Enum.map(&map_ui_system/1)
 
             filtered_data = %{
               systems: enriched_systems,
+              shared_systems: enriched_shared_systems,
               connections: unique_connections
             }
 
@@ -89,6 +102,9 @@ defmodule WandererOps.Map.Utils do
     {:ok, cached_data}
   end
 
+  def empty_activity,
+    do: %{"signatures" => %{}, "characters" => %{}, "rallies" => %{}, "kills" => %{}}
+
   defp build_adjacency(connections) do
     Enum.reduce(connections, %{}, fn conn, acc ->
       source = conn["solar_system_source"]
@@ -284,6 +300,12 @@ defmodule WandererOps.Map.Utils do
     end)
   end
 
+  defp filter_claimed_systems(systems, used_systems) do
+    Enum.filter(systems, fn system ->
+      MapSet.member?(used_systems, system["solar_system_id"])
+    end)
+  end
+
   # Filter out connections that are already claimed by other maps
   defp filter_unique_connections(connections, used_connections) do
     Enum.reject(connections, fn conn ->
@@ -314,6 +336,69 @@ defmodule WandererOps.Map.Utils do
     end)
   end
 
+  # Merge the activity caches of all maps into per-system counters
+  # Returns: %{solar_system_id => %{"signatures" => %{key => signature}, "pilots" => MapSet, "rally" => bool,
+  #            "kills" => %{killmail_id => unix_time}}}
+  defp build_activity_index(maps) do
+    Enum.reduce(maps, %{}, fn map, acc ->
+      activity =
+        case Cachex.get(:maps_cache, "#{map.id}:activity") do
+          {:ok, activity} when is_map(activity) -> Map.merge(empty_activity(), activity)
+          _ -> empty_activity()
+        end
+
+      acc =
+        Enum.reduce(activity["signatures"], acc, fn {system_id, signatures}, acc_inner ->
+          update_system_activity(acc_inner, system_id, fn entry ->
+            Map.update!(entry, "signatures", &Map.merge(&1, signatures))
+          end)
+        end)
+
+      acc =
+        Enum.reduce(activity["characters"], acc, fn {character_id, system_id}, acc_inner ->
+          update_system_activity(acc_inner, system_id, fn entry ->
+            Map.update!(entry, "pilots", &MapSet.put(&1, character_id))
+          end)
+        end)
+
+      acc =
+        Enum.reduce(activity["rallies"], acc, fn {_rally_id, system_id}, acc_inner ->
+          update_system_activity(acc_inner, system_id, &Map.put(&1, "rally", true))
+        end)
+
+      # Keyed by killmail id, so a kill reported by several maps is counted once
+      Enum.reduce(activity["kills"], acc, fn {kill_id, [system_id, time]}, acc_inner ->
+        update_system_activity(acc_inner, system_id, fn entry ->
+          Map.update!(entry, "kills", &Map.put(&1, kill_id, time))
+        end)
+      end)
+    end)
+  end
+
+  defp update_system_activity(index, system_id, fun) do
+    entry = %{"signatures" => %{}, "pilots" => MapSet.new(), "rally" => false, "kills" => %{}}
+    Map.update(index, system_id, fun.(entry), fun)
+  end
+
+  # Enrich systems with signature, pilot and rally counters for the node badges
+  defp enrich_systems_with_activity(systems, activity_by_system) do
+    Enum.map(systems, fn system ->
+      activity = Map.get(activity_by_system, system["solar_system_id"])
+
+      signatures = if activity, do: Map.values(activity["signatures"]), else: []
+
+      Map.put(system, "activity", %{
+        "signatures" => length(signatures),
+        # A signature without a group has not been scanned down yet
+        "unscanned_signatures" => Enum.count(signatures, &(&1["group"] in [nil, ""])),
+        "pilots" => if(activity, do: MapSet.size(activity["pilots"]), else: 0),
+        "rally" => activity != nil && activity["rally"],
+        # Kill times (unix seconds); the client counts them for the selected time window
+        "kills" => if(activity, do: activity["kills"] |> Map.values() |> Enum.sort(), else: [])
+      })
+    end)
+  end
+
   # Add static info to system for UI display
   defp map_ui_system(%{"solar_system_id" => solar_system_id} = system) do
     {:ok, solar_system_info} =
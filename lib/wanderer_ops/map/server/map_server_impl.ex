@@ -15,11 +15,17 @@ defmodule WandererOps.Map.Server.Impl do
     map: nil,
     server_map_id: nil,
     map_opts: [],
-    last_api_refresh_at: nil
+    last_api_refresh_at: nil,
+    activity_broadcast_scheduled?: false
   ]
 
   @pubsub_client Application.compile_env(:wanderer_ops, :pubsub_client)
   @refresh_data_timeout :timer.minutes(30)
+  # Matches the largest window of the dashboard kill heatmap
+  @kill_retention_seconds 24 * 60 * 60
+  # Activity events (pilots moving, signatures, kills) arrive in bursts, each :data_updated makes
+  # the LiveViews rebuild the whole payload, so they are sent at most once per interval
+  @activity_broadcast_interval :timer.seconds(2)
 
   def new(), do: __struct__()
   def new(args), do: __struct__(args)
@@ -98,6 +104,8 @@ defmodule WandererOps.Map.Server.Impl do
       false
     )
 
+    Cachex.del(:maps_cache, "#{map_id}:activity")
+
     # WandererApp.Cache.delete("map_#{map_id}:started")
 
     # :telemetry.execute([:wanderer_app, :map, :stopped], %{count: 1})
@@ -163,6 +171,12 @@ defmodule WandererOps.Map.Server.Impl do
     end
   end
 
+  def handle_event(:broadcast_activity, %{map_id: map_id} = state) do
+    broadcast!(map_id, :data_updated, %{})
+
+    %{state | activity_broadcast_scheduled?: false}
+  end
+
   def handle_event({ref, _result}, %{map_id: _map_id} = state) when is_reference(ref) do
     Process.demonitor(ref, [:flush])
 
@@ -656,6 +670,135 @@ defmodule WandererOps.Map.Server.Impl do
     state
   end
 
+  # Signatures, tracked pilots, rally points and kills are kept apart from the systems/connections
+  # cache, so the 30-minute API refresh does not wipe them
+
+  def handle_event(
+        %{
+          event: :signature_added,
+          payload: %{"payload" => %{"solar_system_id" => solar_system_id} = signature}
+        },
+        state
+      ) do
+    update_activity(state, fn activity ->
+      put_in(
+        activity,
+        ["signatures", Access.key(solar_system_id, %{}), signature_key(signature)],
+        signature
+      )
+    end)
+  end
+
+  def handle_event(
+        %{
+          event: :signature_removed,
+          payload: %{"payload" => %{"solar_system_id" => solar_system_id} = signature}
+        },
+        state
+      ) do
+    update_activity(state, fn activity ->
+      update_in(activity, ["signatures", Access.key(solar_system_id, %{})], fn signatures ->
+        Map.delete(signatures, signature_key(signature))
+      end)
+    end)
+  end
+
+  def handle_event(
+        %{
+          event: :signatures_updated,
+          payload: %{
+            "payload" => %{"solar_system_id" => solar_system_id, "signatures" => signatures}
+          }
+        },
+        state
+      )
+      when is_list(signatures) do
+    update_activity(state, fn activity ->
+      put_in(
+        activity,
+        ["signatures", solar_system_id],
+        Map.new(signatures, &{signature_key(&1), &1})
+      )
+    end)
+  end
+
+  def handle_event(
+        %{event: event, payload: %{"payload" => character}},
+        state
+      )
+      when event in [:character_added, :character_updated] do
+    update_activity(state, fn activity ->
+      case character["solar_system_id"] do
+        nil ->
+          update_in(activity, ["characters"], &Map.delete(&1, character_key(character)))
+
+        solar_system_id ->
+          put_in(activity, ["characters", character_key(character)], solar_system_id)
+      end
+    end)
+  end
+
+  def handle_event(
+        %{event: :character_removed, payload: %{"payload" => character}},
+        state
+      ) do
+    update_activity(state, fn activity ->
+      update_in(activity, ["characters"], &Map.delete(&1, character_key(character)))
+    end)
+  end
+
+  def handle_event(
+        %{
+          event: :rally_point_added,
+          payload: %{"payload" => %{"solar_system_id" => solar_system_id} = rally_point}
+        },
+        state
+      ) do
+    update_activity(state, fn activity ->
+      put_in(activity, ["rallies", rally_point_key(rally_point)], solar_system_id)
+    end)
+  end
+
+  def handle_event(
+        %{event: :rally_point_removed, payload: %{"payload" => rally_point}},
+        state
+      ) do
+    update_activity(state, fn activity ->
+      update_in(activity, ["rallies"], fn rallies ->
+        case rally_point_key(rally_point) do
+          nil ->
+            # Without an id, drop every rally point in the system
+            rallies
+            |> Enum.reject(fn {_id, system_id} -> system_id == rally_point["solar_system_id"] end)
+            |> Map.new()
+
+          id ->
+            Map.delete(rallies, id)
+        end
+      end)
+    end)
+  end
+
+  def handle_event(
+        %{
+          event: :map_kill,
+          payload: %{"payload" => %{"solar_system_id" => solar_system_id} = kill} = event
+        },
+        state
+      ) do
+    killed_at = kill_unix_time(kill["kill_time"] || event["timestamp"])
+    cutoff = System.os_time(:second) - @kill_retention_seconds
+
+    update_activity(state, fn activity ->
+      kills =
+        activity["kills"]
+        |> Map.put(kill["killmail_id"] || event["id"], [solar_system_id, killed_at])
+        |> Map.reject(fn {_id, [_system_id, time]} -> time < cutoff end)
+
+      Map.put(activity, "kills", kills)
+    end)
+  end
+
   def handle_event(msg, state) do
     Logger.warning("Unhandled event: #{inspect(msg)} #{inspect(state)}")
 
@@ -769,6 +912,48 @@ defmodule WandererOps.Map.Server.Impl do
     :ok
   end
 
+  defp signature_key(signature),
+    do: signature["eve_id"] || signature["signature_id"] || signature["id"]
+
+  defp character_key(character),
+    do: character["eve_id"] || character["character_eve_id"] || character["id"]
+
+  defp rally_point_key(rally_point),
+    do: rally_point["rally_point_id"] || rally_point["id"]
+
+  defp kill_unix_time(time) when is_binary(time) do
+    case DateTime.from_iso8601(time) do
+      {:ok, datetime, _offset} -> DateTime.to_unix(datetime)
+      _ -> System.os_time(:second)
+    end
+  end
+
+  defp kill_unix_time(_time), do: System.os_time(:second)
+
+  # Updates the signature/pilot/rally/kill cache of a map and lets the LiveViews re-render
+  defp update_activity(%{map_id: map_id} = state, fun) do
+    activity =
+      case Cachex.get(:maps_cache, "#{map_id}:activity") do
+        {:ok, activity} when is_map(activity) ->
+          Map.merge(WandererOps.Map.Utils.empty_activity(), activity)
+
+        _ ->
+          WandererOps.Map.Utils.empty_activity()
+      end
+
+    Cachex.put(:maps_cache, "#{map_id}:activity", fun.(activity))
+
+    schedule_activity_broadcast(state)
+  end
+
+  defp schedule_activity_broadcast(%{activity_broadcast_scheduled?: true} = state), do: state
+
+  defp schedule_activity_broadcast(state) do
+    Process.send_after(self(), :broadcast_activity, @activity_broadcast_interval)
+
+    %{state | activity_broadcast_scheduled?: true}
+  end
+
   # Always refreshes map data from API (used by the 30-minute timer)
   defp refresh_map_data_from_api(map) do
     case ApiClient.get_map_systems(map.map_url, map.public_api_key) do
@@ -11,7 +11,9 @@ defmodule WandererOps.Map.EventProcessor do
 
   - **System Events**: Changes to wormhole systems (add/remove/update)
   - **Connection Events**: Wormhole connection changes (future)
-  - **Signature Events**: Cosmic signature updates (future)
+  - **Signature Events**: Cosmic signature updates
+  - **Character Events**: Tracked pilot locations
+  - **Rally Events**: Rally points set on the map
   - **ACL Events**: Access control list changes for character tracking
   - **Special Events**: Meta events like connection status
 
@@ -97,7 +99,9 @@ defmodule WandererOps.Map.EventProcessor do
   # - System Events: add_system, deleted_system, system_metadata_changed
   # - Connection Events: connection_added, connection_removed, connection_updated
   # - Signature Events: signature_added, signature_removed, signatures_updated
+  # - Character Events: character_added, character_removed, character_updated
   # - ACL Events: acl_member_added, acl_member_removed, acl_member_updated
+  # - Rally Events: rally_point_added, rally_point_removed
   # - Special Events: connected, map_kill
   @spec route_event(String.t(), map(), String.t()) :: :ok | {:error, term()} | :ignored
   defp route_event(event_type, event, map_url) do
@@ -198,17 +202,28 @@ defmodule WandererOps.Map.EventProcessor do
     :ok
   end
 
-  # Signature event handlers (not implemented yet)
-  @spec handle_signature_event(String.t(), map(), String.t()) :: :ignored
-  defp handle_signature_event(_event_type, _event, _map_url) do
-    # Future implementation for signature scanning events
-    :ignored
+  # Signature event handlers
+  @spec handle_signature_event(String.t(), map(), String.t()) :: :ok
+  defp handle_signature_event(event_type, event, map_url)
+       when event_type in ["signature_added", "signature_removed", "signatures_updated"] do
+    @pubsub_client.broadcast!(WandererOps.PubSub, map_url, %{
+      event: String.to_atom(event_type),
+      payload: event
+    })
+
+    :ok
   end
 
   # Character event handlers
-  @spec handle_character_event(String.t(), map(), String.t()) :: :ignored
-  defp handle_character_event(_event_type, _event, _map_url) do
-    :ignored
+  @spec handle_character_event(String.t(), map(), String.t()) :: :ok
+  defp handle_character_event(event_type, event, map_url)
+       when event_type in ["character_added", "character_removed", "character_updated"] do
+    @pubsub_client.broadcast!(WandererOps.PubSub, map_url, %{
+      event: String.to_atom(event_type),
+      payload: event
+    })
+
+    :ok
   end
 
   # ACL event handlers (legacy - keeping for compatibility)
@@ -219,9 +234,15 @@ defmodule WandererOps.Map.EventProcessor do
   end
 
   # Rally point event handlers
-  @spec handle_rally_event(String.t(), map(), String.t()) :: :ok | {:error, term()} | :ignored
-  defp handle_rally_event(_event_type, _event, _map_url) do
-    :ignored
+  @spec handle_rally_event(String.t(), map(), String.t()) :: :ok
+  defp handle_rally_event(event_type, event, map_url)
+       when event_type in ["rally_point_added", "rally_point_removed"] do
+    @pubsub_client.broadcast!(WandererOps.PubSub, map_url, %{
+      event: String.to_atom(event_type),
+      payload: event
+    })
+
+    :ok
   end
 
   # Special event handlers
@@ -236,9 +257,14 @@ defmodule WandererOps.Map.EventProcessor do
     :ok
   end
 
-  defp handle_special_event("map_kill", _event, _map_url) do
-    # Kill events are handled by the existing killmail pipeline
-    :ignored
+  defp handle_special_event("map_kill", event, map_url) do
+    # Kill counts per system feed the dashboard heatmap
+    @pubsub_client.broadcast!(WandererOps.PubSub, map_url, %{
+      event: :map_kill,
+      payload: event
+    })
+
+    :ok
   end
 
   # Unknown event handler
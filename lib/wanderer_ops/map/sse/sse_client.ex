@@ -33,7 +33,16 @@ defmodule WandererOps.Map.SSEClient do
     "connection_added",
     "connection_removed",
     "connection_updated",
-    "system_metadata_changed"
+    "system_metadata_changed",
+    "signature_added",
+    "signature_removed",
+    "signatures_updated",
+    "character_added",
+    "character_removed",
+    "character_updated",
+    "rally_point_added",
+    "rally_point_removed",
+    "map_kill"
   ]
   @initial_reconnect_delay 1000
   @max_reconnect_delay 30_000
@@ -18,6 +18,7 @@ defmodule WandererOpsWeb.Components.React.SharedDashboard do
   attr :is_snapshot, :boolean, default: false
   attr :snapshot_at, :string, default: nil
   attr :description, :string, default: nil
+  attr :edge_style, :string, default: nil
 
   def render(assigns) do
     ~H"""
@@ -31,6 +32,7 @@ defmodule WandererOpsWeb.Components.React.SharedDashboard do
         is_snapshot={@is_snapshot}
         snapshot_at={@snapshot_at}
         description={@description}
+        edge_style={@edge_style}
         class="h-full"
       />
     </div>
@@ -43,6 +43,8 @@ defmodule WandererOpsWeb.DashboardLive do
           map
           |> WandererOps.Api.Map.destroy()
 
+        Cachex.del(:maps_cache, "#{map.id}:activity")
+
         {:noreply,
          socket
          |> push_patch(to: ~p"/")}
@@ -125,6 +127,21 @@ defmodule WandererOpsWeb.DashboardLive do
      |> assign(maps: maps |> Enum.map(fn map -> map_ui_map(map) end))}
   end
 
+  def handle_event(
+        "ui:get_system_url",
+        %{"mapId" => map_id, "systemEveId" => system_eve_id},
+        socket
+      ) do
+    # The client never sees map_url, so the link to the source Wanderer map is built here
+    case WandererOps.Api.Map.by_id(map_id) do
+      {:ok, %{map_url: map_url}} when is_binary(map_url) ->
+        {:reply, %{url: "#{String.trim_trailing(map_url, "/")}?system=#{system_eve_id}"}, socket}
+
+      _ ->
+        {:reply, %{url: nil}, socket}
+    end
+  end
+
   # Share link management handlers
 
   def handle_event(
@@ -136,9 +153,15 @@ defmodule WandererOpsWeb.DashboardLive do
     is_snapshot = Map.get(params, "isSnapshot", false)
     password = Map.get(params, "password")
     description = Map.get(params, "description")
+    edge_style = Map.get(params, "edgeStyle")
     expires_at = DateTime.add(DateTime.utc_now(), hours * 3600, :second)
 
-    attrs = %{expires_at: expires_at, is_snapshot: is_snapshot, description: description}
+    attrs = %{
+      expires_at: expires_at,
+      is_snapshot: is_snapshot,
+      description: description,
+      edge_style: edge_style
+    }
 
     # Capture snapshot data if this is a snapshot link
     attrs =
@@ -174,7 +197,8 @@ defmodule WandererOpsWeb.DashboardLive do
              is_snapshot: share_link.is_snapshot,
              snapshot_at: share_link.snapshot_at && DateTime.to_iso8601(share_link.snapshot_at),
              has_password: not is_nil(share_link.password_hash),
-             description: share_link.description
+             description: share_link.description,
+             edge_style: share_link.edge_style
            }
          }, socket}
 
@@ -220,7 +244,8 @@ defmodule WandererOpsWeb.DashboardLive do
               is_snapshot: link.is_snapshot,
               snapshot_at: link.snapshot_at && DateTime.to_iso8601(link.snapshot_at),
               has_password: not is_nil(link.password_hash),
-              description: link.description
+              description: link.description,
+              edge_style: link.edge_style
             }
           end)
 
@@ -97,6 +97,7 @@ defmodule WandererOpsWeb.SharedMapLive do
        snapshot_at: share_link.snapshot_at,
        expires_at: share_link.expires_at,
        description: share_link.description,
+       edge_style: share_link.edge_style,
        password_required: false,
        password_verified: true,
        page_title: "Dashboard - Snapshot View"
@@ -135,6 +136,7 @@ defmodule WandererOpsWeb.SharedMapLive do
        snapshot_at: nil,
        expires_at: share_link.expires_at,
        description: share_link.description,
+       edge_style: share_link.edge_style,
        password_required: false,
        password_verified: true,
        page_title: "Dashboard - Shared View"
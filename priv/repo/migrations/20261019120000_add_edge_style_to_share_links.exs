@@ -0,0 +1,21 @@
+defmodule WandererOps.Repo.Migrations.AddEdgeStyleToShareLinks do
+  @moduledoc """
+  Updates resources based on their most recent snapshots.
+
+  This file was autogenerated with `mix ash_postgres.generate_migrations`
+  """
+
+  use Ecto.Migration
+
+  def up do
+    alter table(:share_links) do
+      add :edge_style, :text
+    end
+  end
+
+  def down do
+    alter table(:share_links) do
+      remove :edge_style
+    end
+  end
+end
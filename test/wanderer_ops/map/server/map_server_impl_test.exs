@@ -0,0 +1,143 @@
+defmodule WandererOps.Map.Server.ImplTest do
+  use ExUnit.Case, async: true
+
+  alias WandererOps.Map.Server.Impl
+
+  setup do
+    map_id = "map-#{System.unique_integer([:positive])}"
+    on_exit(fn -> Cachex.del(:maps_cache, "#{map_id}:activity") end)
+
+    %{map_id: map_id, state: Impl.new(map_id: map_id)}
+  end
+
+  defp event(event, payload), do: %{event: event, payload: %{"payload" => payload}}
+
+  defp activity(map_id) do
+    {:ok, activity} = Cachex.get(:maps_cache, "#{map_id}:activity")
+    activity
+  end
+
+  describe "signatures" do
+    test "are added and removed per system", %{map_id: map_id, state: state} do
+      signature = %{"solar_system_id" => 30_000_142, "eve_id" => "ABC-123"}
+
+      state = Impl.handle_event(event(:signature_added, signature), state)
+      assert activity(map_id)["signatures"] == %{30_000_142 => %{"ABC-123" => signature}}
+
+      Impl.handle_event(event(:signature_removed, signature), state)
+      assert activity(map_id)["signatures"] == %{30_000_142 => %{}}
+    end
+
+    test "are replaced by a full update of the system", %{map_id: map_id, state: state} do
+      old = %{"solar_system_id" => 30_000_142, "eve_id" => "OLD-001"}
+      new = %{"solar_system_id" => 30_000_142, "eve_id" => "NEW-001"}
+
+      state = Impl.handle_event(event(:signature_added, old), state)
+
+      Impl.handle_event(
+        event(:signatures_updated, %{"solar_system_id" => 30_000_142, "signatures" => [new]}),
+        state
+      )
+
+      assert activity(map_id)["signatures"] == %{30_000_142 => %{"NEW-001" => new}}
+    end
+  end
+
+  describe "characters" do
+    test "follow their current system and leave when it is unknown", %{
+      map_id: map_id,
+      state: state
+    } do
+      state =
+        Impl.handle_event(
+          event(:character_added, %{"eve_id" => "1", "solar_system_id" => 30_000_142}),
+          state
+        )
+
+      assert activity(map_id)["characters"] == %{"1" => 30_000_142}
+
+      state =
+        Impl.handle_event(
+          event(:character_updated, %{"eve_id" => "1", "solar_system_id" => nil}),
+          state
+        )
+
+      assert activity(map_id)["characters"] == %{}
+
+      state =
+        Impl.handle_event(
+          event(:character_added, %{"eve_id" => "2", "solar_system_id" => 30_000_144}),
+          state
+        )
+
+      Impl.handle_event(event(:character_removed, %{"eve_id" => "2"}), state)
+      assert activity(map_id)["characters"] == %{}
+    end
+  end
+
+  describe "rally points" do
+    test "without an id remove every rally point of the system", %{
+      map_id: map_id,
+      state: state
+    } do
+      state =
+        [
+          %{"rally_point_id" => "a", "solar_system_id" => 1},
+          %{"rally_point_id" => "b", "solar_system_id" => 1},
+          %{"rally_point_id" => "c", "solar_system_id" => 2}
+        ]
+        |> Enum.reduce(state, &Impl.handle_event(event(:rally_point_added, &1), &2))
+
+      Impl.handle_event(event(:rally_point_removed, %{"solar_system_id" => 1}), state)
+      assert activity(map_id)["rallies"] == %{"c" => 2}
+    end
+  end
+
+  describe "kills" do
+    test "older than the heatmap window are dropped", %{map_id: map_id, state: state} do
+      recent = DateTime.utc_now() |> DateTime.add(-3600) |> DateTime.to_iso8601()
+      old = DateTime.utc_now() |> DateTime.add(-2 * 24 * 3600) |> DateTime.to_iso8601()
+
+      state =
+        Impl.handle_event(
+          event(:map_kill, %{"solar_system_id" => 1, "killmail_id" => 10, "kill_time" => old}),
+          state
+        )
+
+      Impl.handle_event(
+        event(:map_kill, %{"solar_system_id" => 2, "killmail_id" => 11, "kill_time" => recent}),
+        state
+      )
+
+      assert %{11 => [2, _killed_at]} = activity(map_id)["kills"]
+      refute Map.has_key?(activity(map_id)["kills"], 10)
+    end
+  end
+
+  describe "activity broadcast" do
+    test "is scheduled once per burst of events", %{state: state} do
+      signature = %{"solar_system_id" => 1, "eve_id" => "ABC-123"}
+
+      state = Impl.handle_event(event(:signature_added, signature), state)
+      assert state.activity_broadcast_scheduled?
+
+      state = Impl.handle_event(event(:signature_removed, signature), state)
+      assert state.activity_broadcast_scheduled?
+      assert_receive :broadcast_activity, 3_000
+      refute_receive :broadcast_activity, 500
+    end
+
+    test "sends :data_updated and lets the next event schedule again", %{
+      map_id: map_id,
+      state: state
+    } do
+      Phoenix.PubSub.subscribe(WandererOps.PubSub, map_id)
+
+      state =
+        Impl.handle_event(:broadcast_activity, %{state | activity_broadcast_scheduled?: true})
+
+      assert_receive %{event: :data_updated}
+      refute state.activity_broadcast_scheduled?
+    end
+  end
+end